@@ -1,5 +1,10 @@
 import {
   App,
+  Component,
+  DropdownComponent,
+  Editor,
+  MarkdownView,
+  Menu,
   Notice,
   Plugin,
   PluginSettingTab,
@@ -7,37 +12,300 @@ import {
   requestUrl,
   TFolder,
   TFile,
+  TAbstractFile,
+  Vault,
   ItemView,
+  FuzzySuggestModal,
+  MarkdownRenderer,
+  Modal,
   WorkspaceLeaf,
+  debounce,
+  moment,
+  normalizePath,
+  parseFrontMatterTags,
+  setIcon,
 } from 'obsidian';
-import { BookriseClient, Book, Highlight } from './src/BookriseClient';
+import type momentLib from 'moment';
+import {
+	Account,
+	BookriseClient,
+	BookriseClientOptions,
+	Book,
+	DEFAULT_BASE_URL,
+	ChatResponse,
+	Highlight,
+	HighlightUpdate,
+	NewHighlightFields,
+	ReadingProgress,
+	ReadingQueueItem,
+} from './src/BookriseClient';
+import { SyncState, SyncStateStore, SyncedHighlightState } from './src/SyncState';
+import { PlannedChange, SyncPreview } from './src/SyncPreview';
+import { DiffLine, collapseUnchanged, diffLines } from './src/TextDiff';
+import {
+	EXPORT_FORMAT_NAMES,
+	ExportFormat,
+	ExportedBook,
+	exportNeedsHighlights,
+	renderExport,
+} from './src/Export';
+import {
+  AuthError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  describeBookriseError,
+} from './src/BookriseErrors';
+import { CHAT_NOTE_TYPE, ChatMessage, formatCallout, parseConversation, serializeConversation } from './src/ChatHistory';
+import {
+	HighlightFields,
+	hashHighlightFields,
+	normalizeHighlightFields,
+	parseBookHighlightList,
+	parseHighlightNote,
+	toBookriseColor,
+} from './src/HighlightEdits';
+import { MY_NOTES_REGION, mergeWithExistingNote, protectedRegion, splitFrontmatter } from './src/NoteMerge';
+import {
+	FrontmatterProperties,
+	OMITTED_PROPERTY,
+	PropertyNames,
+	RENAMEABLE_PROPERTIES,
+	applyPropertyNames,
+	checkPropertyName,
+	formatFrontmatter,
+} from './src/Frontmatter';
+import { ReviewRating, ReviewStateStore, isDue, scheduleReview } from './src/ReviewSchedule';
+import { SyncFilters, isBookIncluded, isHighlightIncluded, parseListSetting } from './src/SyncFilters';
+import { IMPORT_SOURCE_NAMES, ImportFormat, isImportedId, parseKindleClippings, parseReadwiseCsv } from './src/Import';
+import {
+  TemplateContext,
+  bookTemplateContext,
+  highlightTemplateContext,
+  renderTemplate,
+  shortHighlightText,
+} from './src/Templates';
+
+// What a successful connection test found out
+interface ConnectionInfo {
+	account: Account | null; // Null when the BookRise instance has no account endpoint
+	bookCount: number;
+}
+
+// What happens to synced notes whose book or highlight was deleted in BookRise
+type DeletionPolicy = 'delete' | 'archive' | 'mark';
+
+// Per-book settings that replace the global ones; unset fields use the global setting
+interface BookSyncOverride {
+	folder?: string;
+	mode?: 'single-file' | 'per-highlight';
+}
+
+// A BookRise account on a BookRise instance, synced into its own folder
+interface BookriseProfile {
+	id: string; // Stable; names the profile's sync state file
+	name: string; // Recorded as `profile` in the frontmatter of the profile's notes
+	baseUrl: string;
+	apiKey: string;
+	syncFolder: string; // Folder to sync the profile's notes into
+}
+
+const DEFAULT_PROFILE: BookriseProfile = {
+	id: 'default',
+	name: 'Default',
+	baseUrl: DEFAULT_BASE_URL,
+	apiKey: '',
+	syncFolder: 'BookRise', // Default sync folder
+};
 
 // Define settings interface
-interface BookrisePluginSettings {
-	bookriseApiKey: string;
-	bookriseSyncFolder: string; // Folder to sync BookRise notes into
+interface BookrisePluginSettings extends SyncFilters {
+	profiles: BookriseProfile[]; // Never empty
+	activeProfileId: string; // Profile used for chat and the other commands; syncs cover every profile
 	createNotePerHighlight: boolean; // New setting
+	bookNoteTemplate: string; // Body of the book note; empty uses the built-in layout
+	highlightTemplate: string; // Each highlight (list item or highlight note body); empty uses the built-in layout
+	highlightFileNameTemplate: string; // File name of individual highlight notes
+	syncOnStartup: boolean; // Run a background sync once the workspace is ready
+	autoSyncIntervalMinutes: number; // Background sync interval, 0 disables it
+	deletionPolicy: DeletionPolicy;
+	archiveFolder: string; // Destination for the 'archive' deletion policy
+	pushHighlightEdits: boolean; // Send notes and colors edited in the vault back to BookRise when syncing
+	addNewHighlightsToDailyNote: boolean; // Append highlights that are new in a sync to today's daily note
+	bookOverrides: Record<string, BookSyncOverride>; // Keyed by BookRise book ID
+	propertyNames: PropertyNames; // Frontmatter property names that differ from the defaults
 	// We can add more settings here later, e.g., sync frequency, default folder for notes
 }
 
 const DEFAULT_SETTINGS: BookrisePluginSettings = {
-	bookriseApiKey: '',
-	bookriseSyncFolder: 'BookRise', // Default sync folder
-	createNotePerHighlight: false // Default to false
+	profiles: [DEFAULT_PROFILE],
+	activeProfileId: DEFAULT_PROFILE.id,
+	createNotePerHighlight: false, // Default to false
+	bookNoteTemplate: '',
+	highlightTemplate: '',
+	highlightFileNameTemplate: '{{short_text}} ({{short_id}})',
+	syncOnStartup: false,
+	autoSyncIntervalMinutes: 0,
+	deletionPolicy: 'mark',
+	archiveFolder: 'BookRise Archive',
+	pushHighlightEdits: true,
+	addNewHighlightsToDailyNote: false,
+	bookOverrides: {},
+	propertyNames: {},
+	excludedBookIds: [],
+	includeBookTags: [],
+	excludeBookTags: [],
+	minPercentRead: 0,
+	maxPercentRead: 100,
+	excludedHighlightColors: [],
 }
 
 export const BOOKRISE_CHAT_VIEW_TYPE = "bookrise-chat-view";
+export const BOOKRISE_DASHBOARD_VIEW_TYPE = "bookrise-dashboard-view";
+export const BOOKRISE_REVIEW_VIEW_TYPE = "bookrise-review-view";
+
+// Earlier turns sent along with each chat message, so follow-up questions have context
+const MAX_CHAT_HISTORY_MESSAGES = 20;
+
+// Recent highlight activity on the dashboard: how far back to look, and how many to show
+const DASHBOARD_ACTIVITY_DAYS = 7;
+const DASHBOARD_ACTIVITY_LIMIT = 15;
+
+// Highlights per review session: new (never reviewed) cards added to the due ones, and random picks
+const REVIEW_NEW_CARDS_PER_SESSION = 10;
+const REVIEW_RANDOM_CARDS_PER_SESSION = 10;
+
+// Streaming answers are re-rendered as Markdown at most this often
+const STREAM_RENDER_INTERVAL_MS = 150;
+
+// Deleted highlights are missing from the recently changed ones an incremental sync asks for,
+// so this often a sync goes through every book to catch them
+const RECONCILE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+// A source cited by an AI answer, linked to the synced note it came from when we have one
+interface ChatCitation {
+	label: string;
+	linktext: string | null;
+	tooltip: string;
+}
+
+// Obsidian's `moment` export is typed as a namespace; cast it to the callable moment function
+const momentFn = moment as unknown as typeof momentLib;
+
+// Frontmatter properties written by the plugin. Everything else in a synced note's
+// frontmatter was added by the user and is kept across syncs.
+const BOOKRISE_FRONTMATTER_KEYS = [
+	'title', 'id', 'author', 'isbn', 'percent_read', 'tags', 'source', 'profile',
+	'book', 'book_id', 'highlight_id', 'color', 'page', 'location', 'highlight_created_at', 'deleted',
+];
+
+// Names the renameable properties can't take: the plugin's own, and `type`, which marks chat notes
+const RESERVED_PROPERTY_NAMES = [...BOOKRISE_FRONTMATTER_KEYS, 'type'];
+
+// Tags the plugin derives from a book's author and a highlight's color. When these
+// change, the old ones are dropped; other tags added to a synced note are kept.
+function isGeneratedTag(tag: unknown): boolean {
+	return typeof tag === 'string' && /^(author|hlcolor)\//.test(tag);
+}
+
+// Heading of the protected section at the end of every synced note
+const MY_NOTES_HEADING = '\n## My Notes\n';
+
+// Synced notes found in the vault, keyed by BookRise book ID and highlight ID
+interface SyncedNoteIndex {
+	books: Map<string, TFile>;
+	highlights: Map<string, TFile>;
+}
+
+// Templates resolved for a sync run; empty book/highlight templates mean the built-in layout
+interface SyncTemplates {
+	book: string;
+	highlight: string;
+	fileName: string;
+}
+
+// A highlight synced for the first time, listed in the daily note
+interface NewlySyncedHighlight {
+	book: Book;
+	bookNotePath: string;
+	link: string; // Link to the highlight's own note, or to its ^blockId in the book note
+}
+
+// Result of syncing a single book, rolled up into the sync summary
+interface BookSyncResult {
+	removedHighlights: number; // Highlights that were synced before but are gone from BookRise
+	newHighlights: NewlySyncedHighlight[];
+}
+
+// The core Daily notes plugin's settings, as stored in `.obsidian/daily-notes.json`
+interface DailyNotesConfig {
+	folder?: string;
+	format?: string; // Moment.js format of the note's name
+	template?: string; // Path of the note a new daily note starts from
+}
+
+// Heading the newly synced highlights go under in the daily note
+const DAILY_NOTE_HEADING = '## BookRise highlights';
+
+// A highlight whose note or color was edited in the vault since it was last synced
+interface LocalHighlightEdit {
+	highlightId: string;
+	bookId: string;
+	path: string; // Note the edit was read from
+	fields: HighlightFields;
+	synced: SyncedHighlightState;
+}
+
+// Result of pushing local highlight edits to BookRise at the start of a sync
+interface PushEditsResult {
+	pushed: number;
+	conflictedBookIds: Set<string>; // Books left out of the sync so undecided local edits survive
+}
+
+// Where an export is written: a file in the vault, or a download to the file system
+type ExportDestination = 'vault' | 'download';
+
+// Which version wins when a highlight was edited both in the vault and in BookRise
+type ConflictChoice = 'local' | 'remote' | 'skip';
+
+// A synced highlight to review, read from its highlight note or its block in the book note
+interface ReviewCard {
+	key: string; // Block ID, the same in both note layouts
+	markdown: string;
+	sourcePath: string; // For resolving links while rendering
+	linktext: string; // Opens the highlight where it lives in the vault
+	bookTitle: string;
+}
 
 class BookriseChatView extends ItemView {
 	plugin: BookrisePlugin;
 	books: Book[] = [];
 	selectedBookId: string | null = null;
 
+	// Current conversation, saved as a note after every answer
+	messages: ChatMessage[] = [];
+	conversationFile: TFile | null = null;
+	conversationCreated = '';
+
+	// Highlights attached as context, sent with every message until removed
+	attachedHighlights: Highlight[] = [];
+	bookHighlightsCache = new Map<string, Highlight[]>();
+
 	// UI Elements
 	bookSelectEl!: HTMLSelectElement;
+	conversationSelectEl!: HTMLSelectElement;
 	chatMessagesContainerEl!: HTMLDivElement;
+	attachmentsEl!: HTMLDivElement;
 	messageInputEl!: HTMLInputElement;
+	attachButtonEl!: HTMLButtonElement;
 	sendButtonEl!: HTMLButtonElement;
+	stopButtonEl!: HTMLButtonElement;
+
+	// Set while an answer is streaming, so the Stop button can cancel it
+	abortController: AbortController | null = null;
+
+	// Owns what the Markdown renderer attached to each shown AI message
+	messageComponents = new Map<HTMLElement, Component>();
 
 	constructor(leaf: WorkspaceLeaf, plugin: BookrisePlugin) {
 		super(leaf);
@@ -67,14 +335,28 @@ class BookriseChatView extends ItemView {
 		this.bookSelectEl.style.width = "100%";
 		this.bookSelectEl.style.padding = "8px";
 
+		// Past conversations about the selected book
+		this.conversationSelectEl = bookSelectContainer.createEl("select", { cls: "bookrise-chat-conversation-select" });
+		this.conversationSelectEl.style.width = "100%";
+		this.conversationSelectEl.style.padding = "8px";
+		this.conversationSelectEl.style.marginTop = "5px";
+		this.conversationSelectEl.style.display = "none";
+
 		// Chat messages container
 		this.chatMessagesContainerEl = container.createDiv({ cls: "bookrise-chat-messages" });
-		this.chatMessagesContainerEl.style.height = "calc(100% - 160px)"; // Adjusted height for book selector
+		this.chatMessagesContainerEl.style.height = "calc(100% - 200px)"; // Adjusted height for book and conversation selectors
 		this.chatMessagesContainerEl.style.overflowY = "auto";
 		this.chatMessagesContainerEl.style.border = "1px solid var(--background-modifier-border)";
 		this.chatMessagesContainerEl.style.padding = "10px";
 		this.chatMessagesContainerEl.style.marginBottom = "10px";
 
+		// Attached highlights, shown as removable chips above the input
+		this.attachmentsEl = container.createDiv({ cls: "bookrise-chat-attachments" });
+		this.attachmentsEl.style.display = "flex";
+		this.attachmentsEl.style.flexWrap = "wrap";
+		this.attachmentsEl.style.gap = "4px";
+		this.attachmentsEl.style.marginBottom = "5px";
+
 		// Input area
 		const inputContainer = container.createDiv({ cls: "bookrise-chat-input-container" });
 		inputContainer.style.display = "flex";
@@ -88,24 +370,44 @@ class BookriseChatView extends ItemView {
 		this.messageInputEl.style.flexGrow = "1";
 		this.messageInputEl.style.padding = "8px";
 
+		this.attachButtonEl = inputContainer.createEl("button", {
+			cls: "bookrise-chat-attach-button",
+			attr: { "aria-label": "Attach highlights as context" }
+		});
+		setIcon(this.attachButtonEl, "paperclip");
+		this.attachButtonEl.onClickEvent(() => this.pickHighlightToAttach());
+
 		this.sendButtonEl = inputContainer.createEl("button", { 
 			text: "Send",
 			cls: "bookrise-chat-send-button"
 		});
 		this.sendButtonEl.style.padding = "8px 15px";
 
+		this.stopButtonEl = inputContainer.createEl("button", {
+			text: "Stop",
+			cls: "bookrise-chat-stop-button"
+		});
+		this.stopButtonEl.style.padding = "8px 15px";
+		this.stopButtonEl.style.display = "none";
+		this.stopButtonEl.onClickEvent(() => this.abortController?.abort());
+
 		await this.loadBooks();
 
 		// Event Listeners
 		this.bookSelectEl.onchange = () => {
 			this.selectedBookId = this.bookSelectEl.value || null;
-			this.chatMessagesContainerEl.empty(); // Clear chat on book change
-			if (this.selectedBookId) {
-				this.messageInputEl.placeholder = "Ask about the selected book...";
-				this.displaySystemMessage(`Chatting about: ${this.books.find(b => b.id === this.selectedBookId)?.title || 'Unknown Book'}`);
+			this.attachedHighlights = [];
+			this.renderAttachments();
+			this.startNewConversation(); // Previous conversation is already saved
+			this.refreshConversationList();
+		};
+
+		this.conversationSelectEl.onchange = async () => {
+			const file = this.app.vault.getAbstractFileByPath(this.conversationSelectEl.value);
+			if (file instanceof TFile) {
+				await this.openConversation(file);
 			} else {
-				this.messageInputEl.placeholder = "Select a book to start chatting...";
-				this.displaySystemMessage("Please select a book to chat about.");
+				this.startNewConversation();
 			}
 		};
 		
@@ -122,6 +424,7 @@ class BookriseChatView extends ItemView {
 		    this.displaySystemMessage("No books found or API key not set. Please check settings and sync if needed.");
 		    this.messageInputEl.disabled = true;
 		    this.sendButtonEl.disabled = true;
+		    this.attachButtonEl.disabled = true;
 		    this.bookSelectEl.disabled = true;
 		} else {
 		    this.messageInputEl.placeholder = "Select a book to start chatting...";
@@ -148,7 +451,11 @@ class BookriseChatView extends ItemView {
 			}
 		} catch (error) {
 			console.error("Error loading books for chat:", error);
-			new Notice("Could not load books for chat. See console for details.");
+			if (error instanceof AuthError) {
+				this.plugin.promptForApiKey(this.plugin.activeProfile, describeBookriseError(error));
+			} else {
+				new Notice(`Could not load books for chat. ${describeBookriseError(error)}`);
+			}
 			this.books = [];
 			this.populateBookSelect(); // Will show "No books available" or error
 		}
@@ -177,6 +484,134 @@ class BookriseChatView extends ItemView {
         }
 	}
 	
+	startNewConversation() {
+		this.messages = [];
+		this.conversationFile = null;
+		this.conversationCreated = new Date().toISOString();
+		this.clearMessages();
+		if (this.selectedBookId) {
+			this.messageInputEl.placeholder = "Ask about the selected book...";
+			this.displaySystemMessage(`Chatting about: ${this.books.find(b => b.id === this.selectedBookId)?.title || 'Unknown Book'}`);
+		} else {
+			this.messageInputEl.placeholder = "Select a book to start chatting...";
+			this.displaySystemMessage("Please select a book to chat about.");
+		}
+	}
+
+	async openConversation(file: TFile) {
+		this.messages = parseConversation(await this.app.vault.read(file));
+		this.conversationFile = file;
+		this.conversationCreated = String(this.app.metadataCache.getFileCache(file)?.frontmatter?.created ?? new Date().toISOString());
+		this.clearMessages();
+		this.displaySystemMessage(`Continuing conversation from ${file.basename}`);
+		for (const message of this.messages) {
+			if (message.role === 'user') {
+				this.displayUserMessage(message.content);
+			} else {
+				this.displayAIMessage(message.content);
+			}
+		}
+	}
+
+	// Fill the conversation dropdown with the saved chats of the selected book, newest first
+	refreshConversationList() {
+		this.conversationSelectEl.empty();
+		if (!this.selectedBookId) {
+			this.conversationSelectEl.style.display = "none";
+			return;
+		}
+		this.conversationSelectEl.style.display = "";
+		this.conversationSelectEl.createEl("option", { text: "New conversation", value: "" });
+		for (const file of this.plugin.getChatNotes(this.selectedBookId)) {
+			this.conversationSelectEl.createEl("option", { text: file.basename, value: file.path });
+		}
+		this.conversationSelectEl.value = this.conversationFile?.path ?? "";
+	}
+
+	async saveConversation() {
+		const book = this.books.find(b => b.id === this.selectedBookId);
+		if (!book || this.messages.length === 0) return;
+
+		const content = serializeConversation({
+			bookId: book.id,
+			bookTitle: book.title,
+			bookNoteName: this.plugin.sanitizeFileName(book.title),
+			created: this.conversationCreated,
+			profile: this.plugin.activeProfile.name,
+		}, this.messages);
+
+		if (this.conversationFile && this.app.vault.getAbstractFileByPath(this.conversationFile.path)) {
+			await this.app.vault.modify(this.conversationFile, content);
+			return;
+		}
+
+		const chatsFolder = `${this.plugin.getBookFolderPath(book)}/Chats`;
+		await this.plugin.ensureFolderExists(chatsFolder);
+		const baseName = momentFn(this.conversationCreated).format("YYYY-MM-DD HH-mm");
+		let filePath = normalizePath(`${chatsFolder}/${baseName}.md`);
+		for (let i = 2; this.app.vault.getAbstractFileByPath(filePath); i++) {
+			filePath = normalizePath(`${chatsFolder}/${baseName} (${i}).md`);
+		}
+		this.conversationFile = await this.app.vault.create(filePath, content);
+		this.refreshConversationList();
+	}
+
+	async pickHighlightToAttach() {
+		const bookId = this.selectedBookId;
+		if (!bookId || !this.plugin.client) {
+			new Notice("Please select a book before attaching highlights.");
+			return;
+		}
+
+		let highlights = this.bookHighlightsCache.get(bookId);
+		if (!highlights) {
+			try {
+				highlights = await this.plugin.client.listHighlights(bookId);
+				this.bookHighlightsCache.set(bookId, highlights);
+			} catch (error) {
+				console.error("Error loading highlights to attach:", error);
+				new Notice(`Could not load highlights. ${describeBookriseError(error)}`);
+				return;
+			}
+		}
+
+		const available = highlights.filter(hl => !this.attachedHighlights.some(attached => attached.id === hl.id));
+		if (available.length === 0) {
+			new Notice("No more highlights to attach for this book.");
+			return;
+		}
+		new HighlightSuggestModal(this.app, available, hl => {
+			this.attachedHighlights.push(hl);
+			this.renderAttachments();
+		}).open();
+	}
+
+	renderAttachments() {
+		this.attachmentsEl.empty();
+		for (const hl of this.attachedHighlights) {
+			const chip = this.attachmentsEl.createDiv({ cls: "bookrise-chat-attachment" });
+			chip.style.padding = "2px 6px";
+			chip.style.borderRadius = "10px";
+			chip.style.background = "var(--background-modifier-hover)";
+			chip.style.fontSize = "var(--font-ui-smaller)";
+			chip.createSpan({ text: describeHighlight(hl, 40) });
+			const removeEl = chip.createSpan({ text: " ×", cls: "bookrise-chat-attachment-remove" });
+			removeEl.style.cursor = "pointer";
+			removeEl.onClickEvent(() => {
+				this.attachedHighlights = this.attachedHighlights.filter(attached => attached.id !== hl.id);
+				this.renderAttachments();
+			});
+		}
+	}
+
+	clearMessages() {
+		for (const component of this.messageComponents.values()) {
+			this.removeChild(component);
+		}
+		this.messageComponents.clear();
+		this.chatMessagesContainerEl.empty();
+	}
+
 	displaySystemMessage(message: string) {
 		const systemMessageEl = this.chatMessagesContainerEl.createDiv({ cls: "bookrise-system-message" });
 		systemMessageEl.setText(message);
@@ -197,9 +632,63 @@ class BookriseChatView extends ItemView {
 
 	displayAIMessage(message: string) {
 		const aiMessageEl = this.chatMessagesContainerEl.createDiv({ cls: "bookrise-ai-message" });
-		aiMessageEl.setText(`BookRise AI: ${message}`);
 		// Add styling for AI messages
 		aiMessageEl.style.marginBottom = "5px";
+		this.renderAIMessage(aiMessageEl, message);
+	}
+
+	// Render an AI answer as Markdown, replacing the element's previous content. Each render
+	// gets a fresh component, so streamed answers don't leave one behind per chunk.
+	async renderAIMessage(aiMessageEl: HTMLElement, markdown: string) {
+		this.releaseAIMessage(aiMessageEl);
+		const component = this.addChild(new Component());
+		this.messageComponents.set(aiMessageEl, component);
+		aiMessageEl.empty();
+		aiMessageEl.createEl("strong", { text: "BookRise AI:" });
+		const contentEl = aiMessageEl.createDiv({ cls: "bookrise-ai-message-content" });
+		await MarkdownRenderer.render(this.app, markdown, contentEl, this.conversationFile?.path ?? "", component);
+		this.chatMessagesContainerEl.scrollTop = this.chatMessagesContainerEl.scrollHeight;
+	}
+
+	// Unload what an AI message's last render attached, before it is replaced
+	releaseAIMessage(aiMessageEl: HTMLElement) {
+		const component = this.messageComponents.get(aiMessageEl);
+		if (component) {
+			this.removeChild(component);
+			this.messageComponents.delete(aiMessageEl);
+		}
+	}
+
+	// Show the answer's cited chapters and paragraphs as chips linking into the vault
+	renderCitations(aiMessageEl: HTMLElement, response: ChatResponse) {
+		const book = this.books.find(b => b.id === this.selectedBookId);
+		if (!book) return;
+		const citations = this.plugin.resolveCitations(book, response.cited_paragraph_ids ?? [], response.cited_chapters ?? []);
+		if (citations.length === 0) return;
+
+		const citationsEl = aiMessageEl.createDiv({ cls: "bookrise-ai-citations" });
+		citationsEl.style.display = "flex";
+		citationsEl.style.flexWrap = "wrap";
+		citationsEl.style.gap = "4px";
+		citationsEl.style.marginTop = "4px";
+		for (const citation of citations) {
+			const chip = citationsEl.createEl(citation.linktext ? "a" : "span", {
+				text: citation.label,
+				cls: "bookrise-ai-citation",
+				attr: { "aria-label": citation.tooltip },
+			});
+			chip.style.padding = "2px 6px";
+			chip.style.borderRadius = "10px";
+			chip.style.background = "var(--background-modifier-hover)";
+			chip.style.fontSize = "var(--font-ui-smaller)";
+			const linktext = citation.linktext;
+			if (linktext) {
+				chip.onClickEvent((event) => {
+					event.preventDefault();
+					this.app.workspace.openLinkText(linktext, "", false);
+				});
+			}
+		}
 		this.chatMessagesContainerEl.scrollTop = this.chatMessagesContainerEl.scrollHeight;
 	}
 
@@ -217,26 +706,50 @@ class BookriseChatView extends ItemView {
 		}
 
 		this.displayUserMessage(message);
+		// History is everything before this message; it is sent along so follow-ups have context
+		const history = this.messages.slice(-MAX_CHAT_HISTORY_MESSAGES);
+		this.messages.push({ role: 'user', content: message });
 		this.messageInputEl.value = ""; // Clear input
-		this.sendButtonEl.disabled = true; // Disable send button while waiting for response
 		this.messageInputEl.disabled = true; // Disable input while waiting
+		this.abortController = new AbortController();
+		this.setStreaming(true);
 
 		// Create a container for the streaming response
 		const aiMessageEl = this.chatMessagesContainerEl.createDiv({ cls: "bookrise-ai-message" });
 		aiMessageEl.setText("BookRise AI: Thinking...");
 		let currentResponse = "";
+		// Re-rendering Markdown on every chunk is wasteful, so streaming renders are throttled
+		let renderTimer: number | null = null;
+		const cancelPendingRender = () => {
+			if (renderTimer !== null) {
+				window.clearTimeout(renderTimer);
+				renderTimer = null;
+			}
+		};
 
 		try {
-			const response = await this.plugin.client.chat(
-				this.selectedBookId,
-				message,
-				undefined,
-				(chunk) => {
+			const response = await this.plugin.client.chat(this.selectedBookId, message, {
+				contextIds: this.attachedHighlights.map(hl => hl.id),
+				history,
+				onChunk: (chunk) => {
 					currentResponse += chunk;
-					aiMessageEl.setText(`BookRise AI: ${currentResponse}`);
-					this.chatMessagesContainerEl.scrollTop = this.chatMessagesContainerEl.scrollHeight;
-				}
-			);
+					if (renderTimer === null) {
+						renderTimer = window.setTimeout(() => {
+							renderTimer = null;
+							this.renderAIMessage(aiMessageEl, currentResponse);
+						}, STREAM_RENDER_INTERVAL_MS);
+					}
+				},
+				signal: this.abortController.signal,
+			});
+			cancelPendingRender();
+
+			if (response.aborted) {
+				await this.renderAIMessage(aiMessageEl, `${currentResponse || "(no answer)"} [stopped]`);
+				this.messages.push({ role: 'assistant', content: `${currentResponse} [stopped]` });
+				await this.saveConversation();
+				return;
+			}
 
 			// The onChunk callback already updated the aiMessageEl with the streaming content.
 			// The response.answer from the client.chat is the aggregation of chunks.
@@ -244,42 +757,439 @@ class BookriseChatView extends ItemView {
 			if (!currentResponse && !response.answer) {
 				aiMessageEl.setText("BookRise AI: Received an empty response.");
 				console.warn("BookRise chat stream resulted in an empty answer:", response);
-			} else if (response.answer && currentResponse !== response.answer) {
-				// This case might happen if the final response object has a more polished/complete answer
-				// or if there was a part of the response not sent via stream events.
-				aiMessageEl.setText(`BookRise AI: ${response.answer}`);
-				console.log("Final chat response.answer differed from accumulated chunks or provided additional details.");
-			} // If currentResponse is populated and response.answer matches, no further action is needed here.
+			} else {
+				// response.answer is normally the aggregation of the chunks, but the final response
+				// object may carry a more complete answer than the stream events did.
+				if (response.answer && currentResponse !== response.answer) {
+					console.log("Final chat response.answer differed from accumulated chunks or provided additional details.");
+				}
+				await this.renderAIMessage(aiMessageEl, response.answer || currentResponse);
+				this.renderCitations(aiMessageEl, response);
+			}
+
+			const answer = response.answer || currentResponse;
+			if (answer) {
+				this.messages.push({ role: 'assistant', content: answer });
+				await this.saveConversation();
+			}
 
 		} catch (error) {
+			cancelPendingRender();
+			this.releaseAIMessage(aiMessageEl); // The partial answer is replaced by the error
 			console.error("Error calling BookRise chat API:", error);
-			aiMessageEl.setText("BookRise AI: Sorry, I couldn't get a response. Please try again.");
-			new Notice("Error sending chat message. See console.");
+			// The question went unanswered, keep it out of the saved conversation
+			if (this.messages[this.messages.length - 1]?.role === 'user') {
+				this.messages.pop();
+			}
+			if (error instanceof AuthError) {
+				aiMessageEl.setText("BookRise AI: Your API key was rejected.");
+				this.plugin.promptForApiKey(this.plugin.activeProfile, describeBookriseError(error));
+			} else if (error instanceof NotFoundError) {
+				aiMessageEl.setText("BookRise AI: This book is no longer in your BookRise library.");
+			} else if (error instanceof RateLimitError || error instanceof NetworkError) {
+				// Transient: keep the question so it can be resent as-is
+				aiMessageEl.setText(`BookRise AI: ${describeBookriseError(error)}`);
+				this.messageInputEl.value = message;
+			} else {
+				aiMessageEl.setText("BookRise AI: Sorry, I couldn't get a response. Please try again.");
+				new Notice("Error sending chat message. See console.");
+			}
 		} finally {
-			this.sendButtonEl.disabled = false; // Re-enable send button
+			this.abortController = null;
+			this.setStreaming(false);
 			this.messageInputEl.disabled = false; // Re-enable input
 			this.messageInputEl.focus(); // Focus back on the input field
 		}
 	}
 
+	// Swap the Send button for a Stop button while an answer is streaming. The book and
+	// conversation can't change meanwhile, or the answer would be saved to the wrong one.
+	setStreaming(streaming: boolean) {
+		this.sendButtonEl.style.display = streaming ? "none" : "";
+		this.stopButtonEl.style.display = streaming ? "" : "none";
+		this.sendButtonEl.disabled = streaming;
+		this.bookSelectEl.disabled = streaming || this.books.length === 0;
+		this.conversationSelectEl.disabled = streaming;
+	}
+
+	// Start over with the active profile's library, e.g. after switching profiles
+	async reload() {
+		this.abortController?.abort();
+		this.selectedBookId = null;
+		this.attachedHighlights = [];
+		this.renderAttachments();
+		await this.loadBooks();
+		this.startNewConversation();
+		this.refreshConversationList();
+	}
+
 	async onClose() {
-		// Nothing to clean up yet
+		// Stop any answer that is still streaming
+		this.abortController?.abort();
+	}
+}
+
+// At-a-glance reading overview: books in progress, the reading queue and recent highlights
+class BookriseDashboardView extends ItemView {
+	plugin: BookrisePlugin;
+	dashboardContentEl!: HTMLDivElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: BookrisePlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return BOOKRISE_DASHBOARD_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return "BookRise Reading";
+	}
+
+	getIcon() {
+		return "book-open";
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1]; // The contentEl
+		container.empty();
+
+		const headerEl = container.createDiv({ cls: "bookrise-dashboard-header" });
+		headerEl.style.display = "flex";
+		headerEl.style.justifyContent = "space-between";
+		headerEl.style.alignItems = "center";
+		headerEl.createEl("h4", { text: "BookRise Reading" });
+
+		const refreshButtonEl = headerEl.createEl("button", {
+			cls: "bookrise-dashboard-refresh",
+			attr: { "aria-label": "Refresh" }
+		});
+		setIcon(refreshButtonEl, "refresh-cw");
+		refreshButtonEl.onClickEvent(() => this.refresh());
+
+		this.dashboardContentEl = container.createDiv({ cls: "bookrise-dashboard-content" });
+		await this.refresh();
+	}
+
+	async refresh() {
+		const contentEl = this.dashboardContentEl;
+		const client = this.plugin.client;
+		contentEl.empty();
+		if (!client) {
+			contentEl.createEl("p", { text: "BookRise API key not set. Please configure it in the plugin settings." });
+			return;
+		}
+		contentEl.createEl("p", { text: "Loading...", cls: "bookrise-dashboard-loading" });
+
+		// Sections load independently, so one unavailable endpoint doesn't hide the others
+		const since = momentFn().subtract(DASHBOARD_ACTIVITY_DAYS, "days").toISOString();
+		const [books, progress, queue, recent] = await Promise.allSettled([
+			client.listBooks(),
+			client.getProgress(),
+			client.getReadingQueue(),
+			client.getRecentHighlights(since),
+		]);
+		contentEl.empty();
+
+		if (books.status === "rejected") {
+			console.error("Error loading books for the BookRise dashboard:", books.reason);
+			if (books.reason instanceof AuthError) {
+				this.plugin.promptForApiKey(this.plugin.activeProfile, describeBookriseError(books.reason));
+			}
+			contentEl.createEl("p", { text: `Could not load your library. ${describeBookriseError(books.reason)}` });
+			return;
+		}
+		const booksById = new Map(books.value.map(book => [book.id, book]));
+
+		// Fall back to the books' own percent_read when progress isn't available
+		if (progress.status === "rejected") {
+			console.warn("Could not load BookRise reading progress, using book data instead:", progress.reason);
+		}
+		this.renderCurrentlyReading(contentEl, booksById, progress.status === "fulfilled" ? progress.value : null);
+
+		const queueSectionEl = this.createSection(contentEl, "Reading queue");
+		if (queue.status === "fulfilled") {
+			this.renderReadingQueue(queueSectionEl, booksById, queue.value);
+		} else {
+			console.error("Error loading the BookRise reading queue:", queue.reason);
+			queueSectionEl.createEl("p", { text: `Could not load the reading queue. ${describeBookriseError(queue.reason)}` });
+		}
+
+		const activitySectionEl = this.createSection(contentEl, "Recent highlights");
+		if (recent.status === "fulfilled") {
+			this.renderRecentHighlights(activitySectionEl, booksById, recent.value);
+		} else {
+			console.error("Error loading recent BookRise highlights:", recent.reason);
+			activitySectionEl.createEl("p", { text: `Could not load recent highlights. ${describeBookriseError(recent.reason)}` });
+		}
+	}
+
+	createSection(parentEl: HTMLElement, title: string): HTMLDivElement {
+		const sectionEl = parentEl.createDiv({ cls: "bookrise-dashboard-section" });
+		sectionEl.style.marginBottom = "15px";
+		sectionEl.createEl("h5", { text: title });
+		return sectionEl;
+	}
+
+	renderCurrentlyReading(parentEl: HTMLElement, booksById: Map<string, Book>, progress: ReadingProgress[] | null) {
+		const sectionEl = this.createSection(parentEl, "Currently reading");
+		const entries: ReadingProgress[] = progress
+			? progress.filter(entry => booksById.has(entry.book_id))
+			: Array.from(booksById.values()).map(book => ({ book_id: book.id, percent_read: book.percent_read ?? 0 }));
+		const reading = entries
+			.filter(entry => entry.percent_read > 0 && entry.percent_read < 100)
+			.sort((a, b) => (b.last_read_at ?? "").localeCompare(a.last_read_at ?? ""));
+
+		if (reading.length === 0) {
+			sectionEl.createEl("p", { text: "No books in progress." });
+			return;
+		}
+		for (const entry of reading) {
+			const book = booksById.get(entry.book_id);
+			const itemEl = sectionEl.createDiv({ cls: "bookrise-dashboard-book" });
+			itemEl.style.marginBottom = "8px";
+			this.renderBookLink(itemEl, entry.book_id, book?.title ?? "Unknown book");
+			if (book?.author) {
+				itemEl.createSpan({ text: ` by ${book.author}`, cls: "bookrise-dashboard-author" });
+			}
+
+			const progressEl = itemEl.createDiv({ cls: "bookrise-dashboard-progress" });
+			progressEl.style.display = "flex";
+			progressEl.style.alignItems = "center";
+			progressEl.style.gap = "6px";
+			const barEl = progressEl.createEl("progress");
+			barEl.max = 100;
+			barEl.value = entry.percent_read;
+			barEl.style.flexGrow = "1";
+			let label = `${Math.round(entry.percent_read)}%`;
+			if (entry.current_page && entry.total_pages) {
+				label += ` (p. ${entry.current_page} of ${entry.total_pages})`;
+			}
+			progressEl.createSpan({ text: label });
+		}
+	}
+
+	renderReadingQueue(sectionEl: HTMLElement, booksById: Map<string, Book>, queue: ReadingQueueItem[]) {
+		if (queue.length === 0) {
+			sectionEl.createEl("p", { text: "Your reading queue is empty." });
+			return;
+		}
+		const listEl = sectionEl.createEl("ol", { cls: "bookrise-dashboard-queue" });
+		for (const item of queue) {
+			const book = booksById.get(item.book_id) ?? item.book;
+			const itemEl = listEl.createEl("li");
+			this.renderBookLink(itemEl, item.book_id, book?.title ?? "Unknown book");
+			if (book?.author) {
+				itemEl.createSpan({ text: ` by ${book.author}`, cls: "bookrise-dashboard-author" });
+			}
+		}
+	}
+
+	renderRecentHighlights(sectionEl: HTMLElement, booksById: Map<string, Book>, highlights: Highlight[]) {
+		const timestamp = (hl: Highlight) => hl.updated_at ?? hl.created_at ?? "";
+		const recent = highlights
+			.slice()
+			.sort((a, b) => timestamp(b).localeCompare(timestamp(a)))
+			.slice(0, DASHBOARD_ACTIVITY_LIMIT);
+
+		if (recent.length === 0) {
+			sectionEl.createEl("p", { text: `No highlights in the last ${DASHBOARD_ACTIVITY_DAYS} days.` });
+			return;
+		}
+		const listEl = sectionEl.createEl("ul", { cls: "bookrise-dashboard-activity" });
+		for (const hl of recent) {
+			const itemEl = listEl.createEl("li");
+			itemEl.createDiv({ text: describeHighlight(hl, 80) });
+			const metaEl = itemEl.createDiv({ cls: "bookrise-dashboard-highlight-meta" });
+			metaEl.style.fontSize = "var(--font-ui-smaller)";
+			metaEl.style.color = "var(--text-muted)";
+			const bookId = hl.book_id ?? "";
+			this.renderBookLink(metaEl, bookId, booksById.get(bookId)?.title ?? "Unknown book");
+			if (timestamp(hl)) {
+				metaEl.createSpan({ text: ` · ${momentFn(timestamp(hl)).fromNow()}` });
+			}
+		}
+	}
+
+	// Title linking to the book's synced note, or plain text when it isn't synced yet
+	renderBookLink(parentEl: HTMLElement, bookId: string, title: string) {
+		const path = this.plugin.activeSyncState.state.books[bookId]?.path;
+		const file = path ? this.app.vault.getAbstractFileByPath(path) : null;
+		if (!(file instanceof TFile)) {
+			parentEl.createSpan({ text: title, attr: { "aria-label": "Not synced to this vault yet" } });
+			return;
+		}
+		const linkEl = parentEl.createEl("a", { text: title, cls: "internal-link", attr: { "aria-label": file.path } });
+		linkEl.onClickEvent((event) => {
+			event.preventDefault();
+			this.app.workspace.openLinkText(file.path, "", false);
+		});
+	}
+}
+
+// One highlight at a time, rated "again / good / easy" to schedule when it comes back
+class BookriseReviewView extends ItemView {
+	plugin: BookrisePlugin;
+	queue: ReviewCard[] = [];
+	reviewedCount = 0;
+	reviewEl!: HTMLDivElement;
+
+	constructor(leaf: WorkspaceLeaf, plugin: BookrisePlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType() {
+		return BOOKRISE_REVIEW_VIEW_TYPE;
+	}
+
+	getDisplayText() {
+		return "BookRise Review";
+	}
+
+	getIcon() {
+		return "layers";
+	}
+
+	async onOpen() {
+		const container = this.containerEl.children[1]; // The contentEl
+		container.empty();
+		container.createEl("h4", { text: "BookRise Review" });
+		this.reviewEl = container.createDiv({ cls: "bookrise-review" });
+		this.reviewEl.style.maxWidth = "700px";
+		this.reviewEl.style.margin = "0 auto";
+		await this.startSession("due");
+	}
+
+	// Due highlights plus a few new ones, or a random selection of all synced highlights
+	async startSession(mode: "due" | "random") {
+		const cards = shuffle(await this.plugin.collectReviewCards());
+		const reviewCards = this.plugin.reviewState.cards;
+		const now = new Date();
+
+		if (mode === "random") {
+			this.queue = cards.slice(0, REVIEW_RANDOM_CARDS_PER_SESSION);
+		} else {
+			const due = cards
+				.filter(card => reviewCards[card.key] && isDue(reviewCards[card.key], now))
+				.sort((a, b) => reviewCards[a.key].due.localeCompare(reviewCards[b.key].due));
+			const unseen = cards.filter(card => !reviewCards[card.key]).slice(0, REVIEW_NEW_CARDS_PER_SESSION);
+			this.queue = [...due, ...unseen];
+		}
+		this.reviewedCount = 0;
+		await this.renderCurrentCard();
+	}
+
+	async renderCurrentCard() {
+		const reviewEl = this.reviewEl;
+		reviewEl.empty();
+
+		const card = this.queue[0];
+		if (!card) {
+			reviewEl.createEl("p", {
+				text: this.reviewedCount > 0
+					? `Done! You reviewed ${this.reviewedCount} highlights.`
+					: "No highlights are due for review. Sync some books, or review a random selection.",
+			});
+			const buttonsEl = reviewEl.createDiv({ cls: "bookrise-review-buttons" });
+			buttonsEl.style.display = "flex";
+			buttonsEl.style.gap = "8px";
+			buttonsEl.createEl("button", { text: "Check for due highlights" })
+				.onClickEvent(() => this.startSession("due"));
+			buttonsEl.createEl("button", { text: "Review random highlights" })
+				.onClickEvent(() => this.startSession("random"));
+			return;
+		}
+
+		reviewEl.createDiv({
+			text: `${this.queue.length} left`,
+			cls: "bookrise-review-remaining",
+		}).style.color = "var(--text-muted)";
+
+		const cardEl = reviewEl.createDiv({ cls: "bookrise-review-card" });
+		cardEl.style.border = "1px solid var(--background-modifier-border)";
+		cardEl.style.borderRadius = "8px";
+		cardEl.style.padding = "16px";
+		cardEl.style.margin = "10px 0";
+
+		const sourceEl = cardEl.createEl("a", { text: card.bookTitle, cls: "bookrise-review-source" });
+		sourceEl.style.fontSize = "var(--font-ui-smaller)";
+		sourceEl.onClickEvent((event) => {
+			event.preventDefault();
+			this.app.workspace.openLinkText(card.linktext, card.sourcePath, false);
+		});
+		const contentEl = cardEl.createDiv({ cls: "bookrise-review-content" });
+		await MarkdownRenderer.render(this.app, card.markdown, contentEl, card.sourcePath, this);
+
+		const buttonsEl = reviewEl.createDiv({ cls: "bookrise-review-buttons" });
+		buttonsEl.style.display = "flex";
+		buttonsEl.style.gap = "8px";
+		const labels: Record<ReviewRating, string> = { again: "Again", good: "Good", easy: "Easy" };
+		const now = new Date();
+		for (const rating of ["again", "good", "easy"] as ReviewRating[]) {
+			// Show when the card would come back, e.g. "Good (3d)"
+			const next = scheduleReview(this.plugin.reviewState.cards[card.key], rating, now);
+			const button = buttonsEl.createEl("button", {
+				text: next.interval > 0 ? `${labels[rating]} (${next.interval}d)` : labels[rating],
+			});
+			if (rating === "good") button.addClass("mod-cta");
+			button.onClickEvent(() => this.rateCurrentCard(rating));
+		}
+	}
+
+	async rateCurrentCard(rating: ReviewRating) {
+		const card = this.queue.shift();
+		if (!card) return;
+		await this.plugin.reviewState.rate(card.key, rating);
+		this.reviewedCount++;
+		if (rating === "again") {
+			this.queue.push(card); // Comes back at the end of this session
+		}
+		await this.renderCurrentCard();
+	}
+}
+
+// Fisher-Yates shuffle into a new array
+function shuffle<T>(items: T[]): T[] {
+	const result = items.slice();
+	for (let i = result.length - 1; i > 0; i--) {
+		const j = Math.floor(Math.random() * (i + 1));
+		[result[i], result[j]] = [result[j], result[i]];
 	}
+	return result;
 }
 
 export default class BookrisePlugin extends Plugin {
 	settings: BookrisePluginSettings;
-	client: BookriseClient | undefined; // Allow client to be undefined
+	client: BookriseClient | undefined; // Client of the active profile; undefined without an API key
+	profile: BookriseProfile; // Whose sync state and folder are in use; the active profile except while syncing another one
+	syncState: SyncStateStore;
+	activeSyncState: SyncStateStore; // The active profile's sync state, read by the commands and views even while another profile syncs
+	reviewState: ReviewStateStore;
+	statusBarEl: HTMLElement;
+	isSyncing = false; // Guards against overlapping manual and background syncs
+	autoSyncIntervalId: number | null = null;
+	syncedNoteIndex: SyncedNoteIndex | null = null; // Only set while a sync is running
+	syncPreview: SyncPreview | null = null; // Only set during a dry run; vault writes are recorded in it instead
 
 	async onload() {
 		await this.loadSettings();
 
-		// Initialize the BookriseClient with the API key
+		// Sync state lives next to data.json and lets later syncs only fetch what changed
+		await this.loadActiveProfile();
+
+		this.reviewState = new ReviewStateStore(
+			this.app.vault.adapter,
+			normalizePath(`${this.manifest.dir}/review-state.json`)
+		);
+		await this.reviewState.load();
+
+		// Initialize the BookriseClient with the active profile's API key
 		// We need to make sure the API key is set before using the client.
 		// The client will be properly initialized after settings are loaded and validated.
-		if (this.settings.bookriseApiKey) {
-			this.client = new BookriseClient(this.settings.bookriseApiKey, requestUrl);
-		} else {
+		this.client = this.createClient(this.activeProfile);
+		if (!this.client) {
 			new Notice('BookRise API key not set. Please configure it in the plugin settings.');
 			// client remains undefined
 		}
@@ -302,11 +1212,98 @@ export default class BookrisePlugin extends Plugin {
 			id: 'bookrise-sync-highlights',
 			name: 'Sync BookRise Highlights',
 			callback: async () => {
-				if (!this.client) {
+				await this.syncAllHighlights();
+			}
+		});
+
+		// Ignores the sync state and refetches every book and highlight
+		this.addCommand({
+			id: 'bookrise-full-resync-highlights',
+			name: 'Full resync of BookRise Highlights',
+			callback: async () => {
+				await this.syncAllHighlights(true);
+			}
+		});
+
+		// Dry run: show what a sync would change and apply only what was reviewed
+		this.addCommand({
+			id: 'bookrise-preview-sync',
+			name: 'Preview BookRise sync',
+			callback: async () => {
+				if (!this.client) {
 					new Notice('BookRise API key not set or client not initialized. Please configure it in the plugin settings.');
 					return;
 				}
-				await this.syncAllHighlights();
+				await this.previewSync();
+			}
+		});
+
+		this.addCommand({
+			id: 'bookrise-export-highlights',
+			name: 'Export highlights',
+			callback: () => {
+				if (!this.client) {
+					new Notice('BookRise API key not set or client not initialized. Please configure it in the plugin settings.');
+					return;
+				}
+				new ExportModal(this.app, (format, destination, useSyncFilters) => {
+					this.exportHighlights(format, destination, useSyncFilters);
+				}).open();
+			}
+		});
+
+		this.addCommand({
+			id: 'bookrise-switch-profile',
+			name: 'Switch BookRise profile',
+			checkCallback: (checking: boolean) => {
+				if (this.settings.profiles.length < 2) return false;
+				if (!checking) {
+					new ProfileSuggestModal(this.app, this.settings.profiles, profile => this.switchProfile(profile.id)).open();
+				}
+				return true;
+			}
+		});
+
+		// Highlights from outside BookRise, written in the same note format
+		this.addCommand({
+			id: 'bookrise-import-highlights',
+			name: 'Import highlights from Kindle or Readwise',
+			callback: () => {
+				new ImportModal(this.app, (content, format) => this.importHighlights(content, format)).open();
+			}
+		});
+
+		// Ask about the selected text and insert the answer below it
+		this.addCommand({
+			id: 'bookrise-ask-about-selection',
+			name: 'Ask BookRise about selection',
+			editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => {
+				if (!editor.getSelection().trim()) return false;
+				if (!checking) {
+					this.askAboutSelection(editor, view.file);
+				}
+				return true;
+			}
+		});
+
+		this.registerEvent(this.app.workspace.on('editor-menu', (menu: Menu, editor: Editor, view) => {
+			if (!editor.getSelection().trim()) return;
+			menu.addItem(item => item
+				.setTitle('Ask BookRise about selection')
+				.setIcon('message-circle')
+				.onClick(() => this.askAboutSelection(editor, view.file)));
+		}));
+
+		// Create a BookRise highlight from text selected in a book's note
+		this.addCommand({
+			id: 'bookrise-create-highlight-from-selection',
+			name: 'Create BookRise highlight from selection',
+			editorCheckCallback: (checking: boolean, editor: Editor, view: MarkdownView) => {
+				if (!editor.getSelection().trim() || !this.getBookIdForFile(view.file)) return false;
+				if (!checking) {
+					this.createHighlightFromSelection(editor, view.file);
+				}
+				return true;
 			}
 		});
 
@@ -316,6 +1313,32 @@ export default class BookrisePlugin extends Plugin {
 			(leaf) => new BookriseChatView(leaf, this)
 		);
 
+		this.registerView(
+			BOOKRISE_DASHBOARD_VIEW_TYPE,
+			(leaf) => new BookriseDashboardView(leaf, this)
+		);
+
+		this.addCommand({
+			id: 'bookrise-open-dashboard',
+			name: 'Open BookRise reading dashboard',
+			callback: () => this.activateDashboardView()
+		});
+
+		this.addRibbonIcon('book-open', 'Open BookRise reading dashboard', () => {
+			this.activateDashboardView();
+		});
+
+		this.registerView(
+			BOOKRISE_REVIEW_VIEW_TYPE,
+			(leaf) => new BookriseReviewView(leaf, this)
+		);
+
+		this.addCommand({
+			id: 'bookrise-review-highlights',
+			name: 'Review BookRise highlights',
+			callback: () => this.activateReviewView()
+		});
+
 		// Updated Ribbon Icon to activate the view
 		this.addRibbonIcon('message-circle', 'Chat with BookRise Book', () => {
 			if (!this.client) {
@@ -330,9 +1353,14 @@ export default class BookrisePlugin extends Plugin {
 		// 	console.log('click', evt);
 		// });
 
-		// When registering intervals, this function setInterval registers a global interval.
-		// Best practice is to save the intervalID and clear it when the plugin is unloaded.
-		// this.registerInterval(window.setInterval(() => console.log('setInterval'), 5 * 60 * 1000));
+		// Background sync: once on startup (when enabled) and on the configured interval
+		this.statusBarEl = this.addStatusBarItem();
+		this.app.workspace.onLayoutReady(() => {
+			if (this.settings.syncOnStartup) {
+				this.syncAllHighlights(false, true);
+			}
+		});
+		this.scheduleAutoSync();
 		console.log("BookRise Plugin Loaded");
 	}
 
@@ -341,220 +1369,1415 @@ export default class BookrisePlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+		const { bookriseApiKey, bookriseSyncFolder, ...data } = await this.loadData() ?? {};
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Settings from before profiles held a single API key and folder; they become the default profile
+		if (!Array.isArray(data.profiles) || data.profiles.length === 0) {
+			this.settings.profiles = [{
+				...DEFAULT_PROFILE,
+				apiKey: bookriseApiKey ?? '',
+				syncFolder: bookriseSyncFolder || DEFAULT_PROFILE.syncFolder,
+			}];
+		}
+		if (!this.getProfile(this.settings.activeProfileId)) {
+			this.settings.activeProfileId = this.settings.profiles[0].id;
+		}
+
+		if (this.canStoreApiKeysLocally()) {
+			let keysInData = false;
+			for (const profile of this.settings.profiles) {
+				if (profile.apiKey) {
+					keysInData = true; // Saved by an earlier version; moved out below
+				} else {
+					profile.apiKey = this.app.loadLocalStorage(this.getApiKeyStorageKey(profile)) ?? '';
+				}
+			}
+			if (keysInData) await this.saveSettings();
+		}
 	}
 
 	async saveSettings() {
-		await this.saveData(this.settings);
-		// Re-initialize client if API key changes
-		if (this.settings.bookriseApiKey) {
-		    this.client = new BookriseClient(this.settings.bookriseApiKey, requestUrl);
-		} else {
+		if (!this.canStoreApiKeysLocally()) {
+			await this.saveData(this.settings);
+			return;
+		}
+		for (const profile of this.settings.profiles) {
+			this.app.saveLocalStorage(this.getApiKeyStorageKey(profile), profile.apiKey || null);
+		}
+		await this.saveData({
+			...this.settings,
+			profiles: this.settings.profiles.map(profile => ({ ...profile, apiKey: undefined })),
+		});
+	}
+
+	// API keys are kept in this device's local storage instead of data.json, so they don't end
+	// up in vault backups and git repositories. Obsidian versions without it keep them in data.json.
+	canStoreApiKeysLocally(): boolean {
+		return typeof this.app.saveLocalStorage === 'function' && typeof this.app.loadLocalStorage === 'function';
+	}
+
+	getApiKeyStorageKey(profile: BookriseProfile): string {
+		return `bookrise-api-key-${profile.id}`;
+	}
+
+	// Re-initialize the client after the active profile, or its API key or URL, changed
+	updateClient() {
+		const hadClient = Boolean(this.client);
+		this.client = this.createClient(this.activeProfile);
+		if (hadClient && !this.client) {
 		    new Notice('BookRise API key has been cleared. Functionality requiring API access will be disabled.');
-		    this.client = undefined; 
 		}
 	}
 
+	// Check that a profile's BookRise instance is reachable and accepts its API key.
+	// Fails fast instead of retrying like regular requests do.
+	async testConnection(profile: BookriseProfile): Promise<ConnectionInfo> {
+		const client = this.createClient(profile, { maxRetries: 0, timeoutMs: 10000 });
+		if (!client) {
+			throw new Error('No API key set.');
+		}
+		let account: Account | null = null;
+		try {
+			account = await client.getAccount();
+		} catch (error) {
+			if (!(error instanceof NotFoundError)) throw error;
+		}
+		const books = await client.listBooks();
+		return { account, bookCount: books.length };
+	}
+
+	// --- Profiles ---
+
+	getProfile(id: string): BookriseProfile | undefined {
+		return this.settings.profiles.find(profile => profile.id === id);
+	}
+
+	get activeProfile(): BookriseProfile {
+		return this.getProfile(this.settings.activeProfileId) ?? this.settings.profiles[0];
+	}
+
+	createClient(profile: BookriseProfile, options: BookriseClientOptions = {}): BookriseClient | undefined {
+		return profile.apiKey ? new BookriseClient(profile.apiKey, requestUrl, { ...options, baseUrl: profile.baseUrl }) : undefined;
+	}
+
+	// The default profile keeps the sync state file from before profiles existed
+	createSyncStateStore(profile: BookriseProfile): SyncStateStore {
+		const fileName = profile.id === DEFAULT_PROFILE.id ? 'sync-state.json' : `sync-state-${profile.id}.json`;
+		return new SyncStateStore(this.app.vault.adapter, normalizePath(`${this.manifest.dir}/${fileName}`));
+	}
+
+	// Load a profile's sync state; the sync then works in the profile's folder.
+	// The active profile shares its store with the commands and views.
+	async useProfile(profile: BookriseProfile) {
+		this.profile = profile;
+		this.syncState = profile === this.activeProfile ? this.activeSyncState : this.createSyncStateStore(profile);
+		await this.syncState.load();
+	}
+
+	// Load the sync state of a newly active profile and use it
+	async loadActiveProfile() {
+		this.activeSyncState = this.createSyncStateStore(this.activeProfile);
+		await this.useProfile(this.activeProfile);
+	}
+
+	// Change the profile used for chat and the other commands
+	async switchProfile(profileId: string) {
+		const profile = this.getProfile(profileId);
+		if (!profile || profile === this.activeProfile) return;
+		if (this.isSyncing) {
+			new Notice('A BookRise sync is running. Switch profiles once it has finished.');
+			return;
+		}
+		this.settings.activeProfileId = profile.id;
+		await this.saveSettings();
+		this.updateClient();
+		await this.loadActiveProfile();
+		for (const leaf of this.app.workspace.getLeavesOfType(BOOKRISE_CHAT_VIEW_TYPE)) {
+			if (leaf.view instanceof BookriseChatView) {
+				await leaf.view.reload();
+			}
+		}
+		this.refreshDashboardViews();
+		new Notice(`Switched to BookRise profile "${profile.name}".`);
+	}
+
+	async addProfile(): Promise<BookriseProfile> {
+		let number = this.settings.profiles.length + 1;
+		while (this.settings.profiles.some(profile => profile.name === `Profile ${number}`)) number++;
+		const profile: BookriseProfile = {
+			id: `profile-${Date.now().toString(36)}`,
+			name: `Profile ${number}`,
+			baseUrl: DEFAULT_BASE_URL,
+			apiKey: '',
+			syncFolder: `BookRise ${number}`,
+		};
+		this.settings.profiles = [...this.settings.profiles, profile];
+		await this.saveSettings();
+		return profile;
+	}
+
+	// The profile's notes are kept; only its settings and sync state go
+	async removeProfile(profile: BookriseProfile) {
+		if (this.isSyncing) {
+			new Notice('A BookRise sync is running. Remove the profile once it has finished.');
+			return;
+		}
+		const remaining = this.settings.profiles.filter(other => other !== profile);
+		if (remaining.length === 0) return;
+		const wasActive = profile === this.activeProfile;
+		this.settings.profiles = remaining;
+		if (wasActive) this.settings.activeProfileId = remaining[0].id;
+		await this.saveSettings();
+		if (this.canStoreApiKeysLocally()) {
+			this.app.saveLocalStorage(this.getApiKeyStorageKey(profile), null);
+		}
+
+		const statePath = normalizePath(`${this.manifest.dir}/sync-state-${profile.id}.json`);
+		if (profile.id !== DEFAULT_PROFILE.id && await this.app.vault.adapter.exists(statePath)) {
+			await this.app.vault.adapter.remove(statePath);
+		}
+		if (wasActive) {
+			this.updateClient();
+			await this.loadActiveProfile();
+			this.refreshDashboardViews();
+		}
+	}
+
+	// Notes are tied to their profile by name, so renaming updates their frontmatter
+	async renameProfile(profile: BookriseProfile, name: string) {
+		if (this.isSyncing) {
+			new Notice('A BookRise sync is running. Rename the profile once it has finished.');
+			return;
+		}
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (frontmatter?.profile === undefined || String(frontmatter.profile) !== profile.name) continue;
+			await this.app.fileManager.processFrontMatter(file, fm => {
+				fm.profile = name;
+			});
+		}
+		profile.name = name;
+		await this.saveSettings();
+	}
+
+	// Force a full sync of one profile, or of every profile after a change to the shared settings
+	async invalidateSyncState(profile?: BookriseProfile) {
+		for (const target of profile ? [profile] : this.settings.profiles) {
+			if (target === this.profile) {
+				await this.syncState.invalidate();
+			} else if (target === this.activeProfile) {
+				await this.activeSyncState.invalidate();
+			} else {
+				const store = this.createSyncStateStore(target);
+				await store.load();
+				await store.invalidate();
+			}
+		}
+	}
+
+	// Profile a note was synced or saved by. Notes from before profiles existed have no
+	// `profile` and belong to the first one; notes of a removed profile to none.
+	getProfileOfNote(frontmatter: Record<string, unknown> | undefined): BookriseProfile | undefined {
+		const name = frontmatter?.profile;
+		if (name === undefined || name === null) return this.settings.profiles[0];
+		return this.settings.profiles.find(profile => profile.name === String(name));
+	}
+
+	getProfileOfFile(file: TFile | null): BookriseProfile | undefined {
+		return this.getProfileOfNote(file ? this.app.metadataCache.getFileCache(file)?.frontmatter : undefined);
+	}
+
+	// Notes of another profile are asked about with that profile's API key
+	getRequestProfileForFile(file: TFile | null): BookriseProfile {
+		const profile = this.getBookIdForFile(file) ? this.getProfileOfFile(file) : undefined;
+		return profile ?? this.activeProfile;
+	}
+
+	getClientForFile(file: TFile | null): BookriseClient | undefined {
+		const profile = this.getRequestProfileForFile(file);
+		return profile !== this.activeProfile ? this.createClient(profile) : this.client;
+	}
+
 	// --- Highlight Sync Implementation ---
-	async syncAllHighlights() {
-		if (!this.client) {
-			new Notice('BookRise client not available. Please check API key.');
+	// Background syncs (startup and interval) only report through the status bar;
+	// manual syncs also show notices.
+	// Every profile with an API key is synced into its own folder, one after the other.
+	async syncAllHighlights(fullResync = false, background = false) {
+		if (!this.settings.profiles.some(profile => profile.apiKey)) {
+			if (!background) new Notice('BookRise client not available. Please check API key.');
+			return;
+		}
+		if (this.isSyncing) {
+			if (!background) new Notice('A BookRise sync is already running.');
 			return;
 		}
 
-		new Notice('Starting BookRise highlight sync...', 5000);
+		this.isSyncing = true;
+		this.setSyncStatus('BookRise: syncing...');
+		try {
+			for (const profile of this.settings.profiles) {
+				const client = this.createClient(profile);
+				if (!client) continue;
+				await this.useProfile(profile);
+				this.syncedNoteIndex = null;
+				await this.runSync(client, fullResync, background);
+			}
+		} finally {
+			this.profile = this.activeProfile;
+			this.syncState = this.activeSyncState;
+			this.isSyncing = false;
+			this.syncedNoteIndex = null;
+		}
+		// Newly synced book notes can now be linked from the dashboard
+		this.refreshDashboardViews();
+	}
+
+	async runSync(client: BookriseClient, fullResync: boolean, background: boolean) {
+		// With several profiles, say which one a message is about
+		const profileLabel = this.settings.profiles.length > 1 ? `${this.profile.name}: ` : '';
+		const notify = (message: string, timeout?: number) => {
+			if (!background) new Notice(`${profileLabel}${message}`, timeout);
+		};
+
+		notify('Starting BookRise highlight sync...', 5000);
+
+		// Taken before fetching, so highlights created while we sync are picked up next time
+		const syncStartedAt = new Date().toISOString();
 
 		try {
-			const books = await this.client.listBooks();
-			if (!books || books.length === 0) {
-				new Notice('No books found in your BookRise library.');
+			// After a URL change the known books belong to the previous instance; keeping them
+			// would have this sync remove their notes as deleted books
+			if (this.syncState.useInstance(this.profile.baseUrl)) {
+				console.log(`BookRise URL of ${this.profile.name} changed, starting its sync over.`);
+			}
+			const library = await client.listBooks() || [];
+
+			// Books left out by the sync settings keep their notes; only deleted books are removed.
+			const removedBooks = await this.removeDeletedBooks(library);
+			if (library.length === 0) {
+				await this.syncState.save();
+				const keptBooks = this.countSyncedBooks();
+				notify(keptBooks > 0
+					? `No books found in your BookRise library. The notes of your ${keptBooks} synced books were kept; remove them yourself if the books are gone from BookRise.`
+					: 'No books found in your BookRise library.');
+				this.setSyncStatus('BookRise: no books', 'No books found in your BookRise library.');
+				return;
+			}
+
+			const books = library.filter(book => isBookIncluded(book, this.settings));
+			if (books.length === 0) {
+				await this.syncState.save();
+				notify('None of your BookRise books match the sync settings.');
+				this.setSyncStatus('BookRise: no books selected', 'None of your BookRise books match the sync settings.');
+				return;
+			}
+
+			// Push edits first, so the sync doesn't overwrite them
+			const pushResult = await this.pushLocalHighlightEdits(client, background);
+			const conflictedBooks = pushResult.conflictedBookIds.size;
+
+			const reconciling = fullResync || this.isReconcileDue();
+			const booksToSync = (fullResync ? books : await this.getBooksToSync(client, books))
+				.filter(book => !pushResult.conflictedBookIds.has(book.id));
+			if (booksToSync.length === 0) {
+				// Conflicted books are left for a later sync
+				if (conflictedBooks === 0) {
+					this.syncState.state.lastSyncedAt = syncStartedAt;
+					this.syncState.state.propertyNames = this.getCustomPropertyNames();
+					if (reconciling) this.syncState.state.lastReconciledAt = syncStartedAt;
+				}
+				await this.syncState.save();
+				let upToDate = removedBooks > 0
+					? `BookRise highlights are up to date. Removed ${removedBooks} deleted books.`
+					: 'BookRise highlights are already up to date.';
+				if (pushResult.pushed > 0) upToDate += ` Pushed ${pushResult.pushed} edited highlights to BookRise.`;
+				if (conflictedBooks > 0) upToDate += ` Left out ${conflictedBooks} books with conflicting edits.`;
+				notify(upToDate);
+				this.setSyncStatus(`BookRise: synced ${new Date().toLocaleTimeString()}`, upToDate);
 				return;
 			}
 
-			new Notice(`Found ${books.length} books. Fetching highlights...`, 5000);
-			await this.ensureFolderExists(this.settings.bookriseSyncFolder);
+			notify(`Found ${booksToSync.length} of ${books.length} books to sync. Fetching highlights...`, 5000);
+			await this.ensureFolderExists(this.profile.syncFolder);
 
 			let successCount = 0;
 			let errorCount = 0;
+			let skippedCount = 0;
+			let removedHighlights = 0;
+			// On the very first sync everything is new; that goes to the book notes, not the daily note
+			const isFirstSync = Object.keys(this.syncState.state.books).length === 0;
+			const newHighlights: NewlySyncedHighlight[] = [];
 
-			for (const book of books) {
+			for (const [index, book] of booksToSync.entries()) {
+				this.setSyncStatus(`BookRise: syncing ${index + 1}/${booksToSync.length}`);
 				try {
-					await this.syncBookHighlights(book);
+					const result = await this.syncBookHighlights(book, client.iterateHighlights(book.id));
+					removedHighlights += result.removedHighlights;
+					newHighlights.push(...result.newHighlights);
 					successCount++;
 				} catch (bookError) {
+					// These affect every remaining book as well, so stop the whole sync
+					if (bookError instanceof AuthError || bookError instanceof RateLimitError || bookError instanceof NetworkError) {
+						await this.syncState.save();
+						throw bookError;
+					}
+					if (bookError instanceof NotFoundError) {
+						// Removed from BookRise while we were syncing; the next sync handles the deletion
+						console.warn(`Book ${book.title} disappeared from BookRise during sync, skipping.`);
+						skippedCount++;
+						continue;
+					}
 					console.error(`Failed to sync highlights for book: ${book.title}`, bookError);
-					new Notice(`Error syncing ${book.title}. Check console.`);
+					notify(`Error syncing ${book.title}. Check console.`);
 					errorCount++;
 				}
 			}
 
+			if (this.settings.addNewHighlightsToDailyNote && !isFirstSync && newHighlights.length > 0) {
+				try {
+					await this.addHighlightsToDailyNote(newHighlights);
+				} catch (dailyNoteError) {
+					console.error('Failed to add new BookRise highlights to the daily note:', dailyNoteError);
+					notify('Could not add new highlights to the daily note. Check console.');
+				}
+			}
+
+			// Only move the sync point forward when every book made it, so failed and
+			// conflicted books are picked up again by the next incremental sync.
+			if (errorCount === 0 && conflictedBooks === 0) {
+				this.syncState.state.lastSyncedAt = syncStartedAt;
+				this.syncState.state.propertyNames = this.getCustomPropertyNames();
+				if (reconciling) this.syncState.state.lastReconciledAt = syncStartedAt;
+			}
+			await this.syncState.save();
+
 			let summaryNotice = 'BookRise highlight sync finished.';
 			if (successCount > 0) summaryNotice += ` Synced ${successCount} books.`;
+			if (pushResult.pushed > 0) summaryNotice += ` Pushed ${pushResult.pushed} edited highlights to BookRise.`;
 			if (errorCount > 0) summaryNotice += ` Failed for ${errorCount} books.`;
-			new Notice(summaryNotice);
+			if (skippedCount > 0) summaryNotice += ` Skipped ${skippedCount} books no longer in BookRise.`;
+			if (removedBooks > 0) summaryNotice += ` Removed ${removedBooks} deleted books.`;
+			if (removedHighlights > 0) summaryNotice += ` Removed ${removedHighlights} deleted highlights.`;
+			if (conflictedBooks > 0) summaryNotice += ` Left out ${conflictedBooks} books with conflicting edits; sync manually to resolve them.`;
+			notify(summaryNotice);
+			let statusText = `BookRise: synced ${new Date().toLocaleTimeString()}`;
+			if (conflictedBooks > 0) statusText = `BookRise: ${conflictedBooks} conflicts`;
+			if (errorCount > 0) statusText = `BookRise: ${errorCount} failed`;
+			this.setSyncStatus(statusText, summaryNotice);
 
 		} catch (error) {
 			console.error('Error during BookRise highlight sync:', error);
-			new Notice('Error syncing BookRise highlights. Check console for details.');
+			const message = `BookRise highlight sync stopped. ${describeBookriseError(error)}`;
+			if (error instanceof AuthError) {
+				this.setSyncStatus('BookRise: API key rejected', message);
+				if (!background) this.promptForApiKey(this.profile, `${profileLabel}${message}`);
+				return;
+			}
+			notify(message);
+			this.setSyncStatus(error instanceof NetworkError ? 'BookRise: offline' : 'BookRise: sync failed', message);
 		}
 	}
 
-	// Helper to sanitize file names
-	sanitizeFileName(name: string): string {
-		return name.replace(/[\/\\:\*\?\"\<\>\|]/g, '-').replace(/\s+/g, ' ');
+	// BookRise book a note belongs to: `book_id` on highlight and chat notes, `id` on book notes
+	getBookIdForFile(file: TFile | null): string | null {
+		if (!file) return null;
+		const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+		const bookId = frontmatter?.book_id ?? (frontmatter?.source === 'BookRise' ? frontmatter.id : null);
+		// Imported books are unknown to BookRise
+		return bookId && !isImportedId(String(bookId)) ? String(bookId) : null;
 	}
 
-	async syncBookHighlights(book: Book) {
-		if (!this.client) return;
+	// Send the editor selection to BookRise chat, asking which book when the note doesn't say
+	async askAboutSelection(editor: Editor, file: TFile | null) {
+		const client = this.getClientForFile(file);
+		if (!client) {
+			new Notice('BookRise API key not set. Please configure it in the plugin settings.');
+			return;
+		}
+		const selection = editor.getSelection().trim();
+		if (!selection) return;
+		// The answer goes below the last selected line
+		const answerLine = editor.getCursor('to').line;
 
-		const bookFolderParent = this.settings.bookriseSyncFolder;
-		const bookFolderName = this.sanitizeFileName(book.title);
-		const bookFolderPath = `${bookFolderParent}/${bookFolderName}`.replace(/\/\//g, '/');
-		await this.ensureFolderExists(bookFolderPath);
+		const profile = this.getRequestProfileForFile(file);
+		const bookId = this.getBookIdForFile(file);
+		if (bookId) {
+			await this.insertAnswerForSelection(client, profile, editor, bookId, selection, answerLine);
+			return;
+		}
 
-		const highlights = await this.client.listHighlights(book.id);
-		
-		// Always create/update the main book file first, regardless of highlight mode or if highlights exist
-		const mainBookSanitizedTitle = this.sanitizeFileName(book.title);
-		const mainBookFilePath = `${bookFolderPath}/${mainBookSanitizedTitle}.md`.replace(/\/\//g, '/');
-		let mainBookContent = this.generateBookFrontmatter(book);
-		mainBookContent += `# ${book.title}\n\n`;
-
-		if (!highlights || highlights.length === 0) {
-			console.log(`No highlights found for book: ${book.title}`);
-			if (this.settings.createNotePerHighlight) {
-				mainBookContent += 'No highlights found for this book.\n';
-			} else {
-				mainBookContent += `# Highlights for ${book.title}\n\n(No highlights found or synced for this book.)\n`;
+		try {
+			const books = await client.listBooks();
+			if (!books || books.length === 0) {
+				new Notice('No books found in your BookRise library.');
+				return;
 			}
-			await this.createOrUpdateFile(mainBookFilePath, mainBookContent);
-			console.log(`Created/Updated main book file (no highlights) for: ${book.title} at ${mainBookFilePath}`);
-			return;
+			new BookSuggestModal(this.app, books, book => {
+				this.insertAnswerForSelection(client, profile, editor, book.id, selection, answerLine);
+			}).open();
+		} catch (error) {
+			console.error('Error loading books for selection question:', error);
+			this.reportApiError(error, 'ask BookRise', profile);
 		}
+	}
 
-		console.log(`Processing ${highlights.length} highlights for book: ${book.title}`);
+	async insertAnswerForSelection(client: BookriseClient, profile: BookriseProfile, editor: Editor, bookId: string, selection: string, answerLine: number) {
+		const notice = new Notice('Asking BookRise...', 0);
+		try {
+			const response = await client.chat(bookId, selection);
+			if (!response.answer) {
+				new Notice('BookRise returned an empty answer.');
+				return;
+			}
+			// The note may have been edited while we waited; never insert past its end
+			const line = Math.min(answerLine, editor.lastLine());
+			const position = { line, ch: editor.getLine(line).length };
+			editor.replaceRange(`\n\n${formatCallout('note', 'BookRise AI', response.answer)}`, position);
+		} catch (error) {
+			console.error('Error asking BookRise about selection:', error);
+			this.reportApiError(error, 'ask BookRise', profile);
+		} finally {
+			notice.hide();
+		}
+	}
 
-		if (this.settings.createNotePerHighlight) {
-			// --- MODE: One note per highlight ---
-			const highlightsFolder = `${bookFolderPath}/_Highlights`;
-			await this.ensureFolderExists(highlightsFolder);
+	// Helper to surface an API error, prompting for a new key of the profile whose key was rejected
+	reportApiError(error: unknown, action: string, profile = this.activeProfile) {
+		if (error instanceof AuthError) {
+			this.promptForApiKey(profile, describeBookriseError(error));
+		} else {
+			new Notice(`Could not ${action}. ${describeBookriseError(error)}`);
+		}
+	}
 
-			mainBookContent += `This book's highlights are stored as individual notes in the "_Highlights" subfolder.
+	// Turn the selection in a book's note into a new BookRise highlight
+	createHighlightFromSelection(editor: Editor, file: TFile | null) {
+		const client = this.client;
+		if (!client) {
+			new Notice('BookRise API key not set. Please configure it in the plugin settings.');
+			return;
+		}
+		const selection = editor.getSelection().trim();
+		const bookId = this.getBookIdForFile(file);
+		if (!selection || !bookId) return;
+		// The new highlight is written into the notes with the active profile's sync state
+		if (this.getProfileOfFile(file) !== this.activeProfile) {
+			new Notice('This note belongs to another BookRise profile. Switch to it to create highlights here.');
+			return;
+		}
 
-## Highlights Index\n`;
-			const highlightLinks: string[] = [];
-
-			for (const hl of highlights) {
-				// console.log("Processing highlight object (for individual note):", JSON.stringify(hl, null, 2)); // Keep for debugging if needed
-				const highlightIdSanitized = this.sanitizeFileName(hl.id);
-				let noteTitlePrefix = 'Highlight';
-				if (hl.text_content) {
-					noteTitlePrefix = hl.text_content.trim().split(' ').slice(0, 5).join(' ');
-				} else if (hl.note) {
-					noteTitlePrefix = `Note - ${hl.note.trim().split(' ').slice(0, 4).join(' ')}`;
+		new CreateHighlightModal(this.app, selection, async (fields) => {
+			try {
+				const book = (await client.listBooks()).find(b => b.id === bookId);
+				if (!book) {
+					throw new NotFoundError(`Book with ID ${bookId} not found`);
 				}
-				noteTitlePrefix = this.sanitizeFileName(noteTitlePrefix);
+				const hl = await client.createHighlight(book.id, selection, fields);
+				await this.addHighlightToBookNote(client, hl, book);
+				new Notice(`Created BookRise highlight in ${book.title}.`);
+			} catch (error) {
+				console.error('Error creating BookRise highlight:', error);
+				this.reportApiError(error, 'create the highlight');
+			}
+		}).open();
+	}
 
-				const noteFileName = `${noteTitlePrefix} (${highlightIdSanitized.substring(0,8)}).md`;
-				const noteFilePath = `${highlightsFolder}/${noteFileName}`.replace(/\/\//g, '/');
-				
-				let noteContent = this.generateHighlightNoteFrontmatter(hl, book, mainBookSanitizedTitle); // Pass main book title for linking back
-				noteContent += this.formatSingleHighlightContent(hl);
+	// Write a newly created highlight into the local notes without resyncing the whole book
+	async addHighlightToBookNote(client: BookriseClient, hl: Highlight, book: Book) {
+		// A running sync owns the sync state; it (or the next one) writes the new highlight
+		if (this.isSyncing) {
+			new Notice('A BookRise sync is running. The new highlight is added to your notes by the sync.');
+			return;
+		}
+
+		this.isSyncing = true;
+		try {
+			const bookNotePath = this.syncState.state.books[book.id]?.path;
+			const bookNote = bookNotePath ? this.app.vault.getAbstractFileByPath(bookNotePath) : null;
+			if (!(bookNote instanceof TFile)) {
+				// Never synced here: a regular sync of the book creates its notes
+				await this.syncBookHighlights(book, client.iterateHighlights(book.id));
+				await this.syncState.save();
+				return;
+			}
 
-				await this.createOrUpdateFile(noteFilePath, noteContent);
-				console.log(`Created/Updated highlight note: ${noteFileName} for book ${book.title}`);
-				// Use relative path for linking from main book note, assuming it's in parent folder
-				highlightLinks.push(`- [[_Highlights/${noteFileName.replace(/\.md$/, '')}|${noteTitlePrefix} (${hl.color || 'highlight'})]]`);
+			const templates = await this.loadTemplates();
+			let entry: string;
+			if (this.usesNotePerHighlight(book.id)) {
+				const highlightsFolder = `${bookNote.parent?.path ?? this.getBookSyncFolder(book.id)}/_Highlights`;
+				await this.ensureFolderExists(highlightsFolder);
+				// The highlight is new, so there is no existing note to look up
+				const emptyIndex: SyncedNoteIndex = { books: new Map(), highlights: new Map() };
+				const link = await this.writeHighlightNote(hl, book, highlightsFolder, this.sanitizeFileName(book.title), templates, emptyIndex);
+				entry = `- ${link}\n`;
+			} else {
+				entry = this.renderHighlightListItem(hl, book, templates);
+				this.syncState.recordHighlight(hl, book.id, bookNote.path);
 			}
-			mainBookContent += highlightLinks.join('\n') + '\n';
-			await this.createOrUpdateFile(mainBookFilePath, mainBookContent);
-			console.log(`Updated main book file with highlight links for: ${book.title}`);
 
-		} else {
-			// --- MODE: All highlights in one book file (existing logic) ---
-			mainBookContent += `# Highlights for ${book.title}\n\n`; // Append to existing mainBookContent
-			highlights.forEach(hl => {
-				// console.log("Processing highlight object (for single file):", JSON.stringify(hl, null, 2)); // Keep for debugging
-				mainBookContent += this.formatSingleHighlightAsListItem(hl);
+			// New entries go at the end of the generated part, just above "My Notes"
+			await this.app.vault.process(bookNote, content => {
+				const myNotesIndex = content.lastIndexOf(MY_NOTES_HEADING);
+				return myNotesIndex === -1
+					? `${content.replace(/\n*$/, '\n')}${entry}`
+					: `${content.substring(0, myNotesIndex)}${entry}${content.substring(myNotesIndex)}`;
 			});
-			await this.createOrUpdateFile(mainBookFilePath, mainBookContent);
-			console.log(`Updated highlights file for: ${book.title} at ${mainBookFilePath}`);
+			await this.syncState.save();
+		} finally {
+			this.isSyncing = false;
+			this.syncedNoteIndex = null;
 		}
 	}
 
-	// Helper to generate YAML for the main book file
-	generateBookFrontmatter(book: Book): string {
-		let fm = '---\n';
-		fm += `title: "${book.title.replace(/:/g, '-')}"\n`;
-		fm += `id: ${book.id}\n`;
+	// Ask for a new API key after BookRise rejected the profile's current one
+	promptForApiKey(profile: BookriseProfile, message: string) {
+		new ApiKeyModal(this.app, this, profile, message).open();
+	}
 
-		const existingBookTags = book.tags || []; // Tags coming from BookRise for the book itself
-		const pluginAddedTags = ['BookRise']; // Default tag added by the plugin
-		if (book.author) {
-			fm += `author: "${book.author}"\n`;
-			const authorTag = book.author.replace(/[^a-zA-Z0-9\-_]/g, '_');
-			pluginAddedTags.push(`author/${authorTag}`);
+	// Apply the deletion policy to books that were synced before but are gone from BookRise.
+	// Returns the number of removed books.
+	async removeDeletedBooks(books: Book[]): Promise<number> {
+		// An empty library after earlier syncs is more likely a bad response than every book
+		// deleted at once, so nothing is removed on its word
+		if (books.length === 0 && this.countSyncedBooks() > 0) {
+			console.warn('BookRise listed no books although books were synced before; not removing any notes.');
+			return 0;
 		}
-		if (book.isbn) fm += `isbn: "${book.isbn}"\n`;
-		if (book.percent_read !== undefined) fm += `percent_read: ${book.percent_read}\n`;
-		
-		// Combine tags from book data and plugin-added tags, ensuring uniqueness
-		const allTags = Array.from(new Set([...existingBookTags, ...pluginAddedTags]));
-		if (allTags.length > 0) {
-		    fm += `tags: [${allTags.map(t => `"${t.replace(/:/g, '-')}"`).join(', ')}]\n`;
+
+		const currentBookIds = new Set(books.map(book => book.id));
+		let removed = 0;
+
+		for (const [bookId, entry] of Object.entries(this.syncState.state.books)) {
+			if (currentBookIds.has(bookId) || isImportedId(bookId)) continue;
+			const syncRoot = normalizePath(this.getBookSyncFolder(bookId));
+
+			// The book's own folder goes with it, but never the sync folder itself
+			const bookNote = this.getSyncedNoteIndex().books.get(bookId) ?? this.app.vault.getAbstractFileByPath(entry.path);
+			const bookNotePath = bookNote?.path ?? entry.path;
+			const bookFolder = bookNote?.parent;
+			const target = bookFolder && bookFolder.path.startsWith(`${syncRoot}/`) ? bookFolder.path : bookNotePath;
+			try {
+				if (await this.handleRemovedFromBookrise(target)) {
+					removed++;
+				}
+				this.syncState.forgetBook(bookId);
+			} catch (error) {
+				console.error(`Failed to handle deleted BookRise book at ${target}:`, error);
+			}
 		}
+		return removed;
+	}
 
-		fm += 'source: BookRise\n'; // Changed from Markdown link to just text "BookRise"
-		fm += '---\n\n';
-		return fm;
+	// Books synced from BookRise (not imported) that the sync state still knows of
+	countSyncedBooks(): number {
+		return Object.keys(this.syncState.state.books).filter(bookId => !isImportedId(bookId)).length;
 	}
 
-	// Helper to generate YAML for an individual highlight note
-	generateHighlightNoteFrontmatter(hl: Highlight, book: Book, bookSanitizedFileNameForLink: string): string {
-		let fm = '---\n';
-		let noteTitle = 'BookRise Highlight';
-		if (hl.text_content) {
-			noteTitle = hl.text_content.trim().split(' ').slice(0, 7).join(' ');
-			if (hl.text_content.trim().split(' ').length > 7) noteTitle += '...';
-		} else if (hl.note) {
-			noteTitle = `Note: ${hl.note.trim().split(' ').slice(0, 6).join(' ')}`;
-			if (hl.note.trim().split(' ').length > 6) noteTitle += '...';
+	// Apply the configured deletion policy to a synced note or book folder.
+	// Returns false when there was nothing left in the vault to handle.
+	async handleRemovedFromBookrise(path: string): Promise<boolean> {
+		if (this.syncPreview) {
+			// The path may be stale when the book folder is renamed in the same run
+			const currentPath = this.syncPreview.currentPath(path);
+			if (!this.syncPreview.getAbstractFileByPath(currentPath)) return false;
+			this.syncPreview.record({ type: 'remove', path: currentPath });
+			return true;
 		}
-		fm += `title: "${this.sanitizeFileName(noteTitle.replace(/:/g, '-'))}"\n`;
-		fm += `book: "[[${bookSanitizedFileNameForLink}]]"\n`;
-		fm += `book_id: ${book.id}\n`;
-		fm += `highlight_id: ${hl.id}\n`;
-		if (hl.color) fm += `color: ${hl.color}\n`;
-		if (hl.page) fm += `page: ${hl.page}\n`;
-		if (hl.location) fm += `location: "${hl.location}"\n`;
-		if (hl.created_at) fm += `highlight_created_at: ${hl.created_at}\n`;
 
-		const tags = ['BookRise', 'BookRiseHighlight'];
-		if (book.author) {
-			const authorTag = book.author.replace(/[^a-zA-Z0-9\-_]/g, '_');
-			tags.push(`author/${authorTag}`);
-		}
-		if (hl.color) {
-			const colorTag = `hlcolor/${hl.color.toLowerCase().replace(/\s+/g, '_')}`;
-			tags.push(colorTag);
+		const target = this.app.vault.getAbstractFileByPath(path);
+		if (!target) return false;
+
+		switch (this.settings.deletionPolicy) {
+			case 'delete':
+				await this.app.fileManager.trashFile(target);
+				break;
+			case 'archive':
+				await this.ensureFolderExists(this.settings.archiveFolder);
+				await this.app.fileManager.renameFile(target, this.getAvailableArchivePath(target));
+				break;
+			case 'mark': {
+				const files: TFile[] = [];
+				if (target instanceof TFolder) {
+					Vault.recurseChildren(target, child => {
+						if (child instanceof TFile && child.extension === 'md') files.push(child);
+					});
+				} else if (target instanceof TFile) {
+					files.push(target);
+				}
+				for (const file of files) {
+					await this.app.fileManager.processFrontMatter(file, frontmatter => {
+						frontmatter.deleted = true;
+					});
+				}
+				break;
+			}
 		}
-		fm += `tags: [${tags.map(t => `"${t.replace(/:/g, '-')}"`).join(', ')}]\n`;
-		// No separate source field for individual highlight notes, they inherit source via book and BookRise tag
-		fm += '---\n\n';
-		return fm;
+		console.log(`Handled deleted BookRise item at ${path} (policy: ${this.settings.deletionPolicy})`);
+		return true;
 	}
 
-	// Helper to format a single highlight as a list item (used in one-file-per-book mode)
-	formatSingleHighlightAsListItem(hl: Highlight): string {
-		const blockId = hl.id ? hl.id.substring(0, 8) : Math.random().toString(36).substring(2, 10);
-		const metadataParts = [];
-		if (hl.page) metadataParts.push(`p. ${hl.page}`);
-		if (hl.location) metadataParts.push(`loc. ${hl.location}`);
-		const metadataString = metadataParts.length > 0 ? ` (${metadataParts.join(', ')})` : '';
-		
-		let colorTagString = '';
-		if (hl.color) {
-			colorTagString = ` #hlcolor/${hl.color.toLowerCase().replace(/\s+/g, '_')}`;
+	// Helper to find a free path in the archive folder, suffixing a timestamp on collisions
+	getAvailableArchivePath(target: TAbstractFile): string {
+		const archivePath = normalizePath(`${this.settings.archiveFolder}/${target.name}`);
+		if (!this.app.vault.getAbstractFileByPath(archivePath)) {
+			return archivePath;
+		}
+		const baseName = target instanceof TFile ? target.basename : target.name;
+		const extension = target instanceof TFile ? `.${target.extension}` : '';
+		return normalizePath(`${this.settings.archiveFolder}/${baseName} (${Date.now()})${extension}`);
+	}
+
+	// Helper to update the status bar item; the tooltip carries the longer message
+	setSyncStatus(text: string, tooltip?: string) {
+		this.statusBarEl.setText(text);
+		this.statusBarEl.setAttr('aria-label', tooltip ?? text);
+	}
+
+	// (Re)start the periodic background sync from the current settings
+	scheduleAutoSync() {
+		if (this.autoSyncIntervalId !== null) {
+			window.clearInterval(this.autoSyncIntervalId);
+			this.autoSyncIntervalId = null;
+		}
+		const minutes = this.settings.autoSyncIntervalMinutes;
+		if (minutes > 0) {
+			this.autoSyncIntervalId = window.setInterval(() => {
+				this.syncAllHighlights(false, true);
+			}, minutes * 60 * 1000);
+			this.registerInterval(this.autoSyncIntervalId);
+		}
+	}
+
+	// Run an incremental sync as a dry run: vault writes are recorded instead of made, and the
+	// sync state is put back afterwards. The recorded changes are shown for review, and only
+	// the ones the user applies are written.
+	async previewSync() {
+		const client = this.client;
+		if (!client) return;
+		if (this.isSyncing) {
+			new Notice('A BookRise sync is already running.');
+			return;
+		}
+
+		new Notice('Previewing BookRise sync...', 5000);
+		const syncStartedAt = new Date().toISOString();
+		const savedState = JSON.parse(JSON.stringify(this.syncState.state)) as SyncState;
+		const preview = new SyncPreview(this.app.vault);
+		let previewState: SyncState;
+		let skippedBooks: Book[] = [];
+
+		this.isSyncing = true;
+		this.syncPreview = preview;
+		try {
+			this.syncState.useInstance(this.activeProfile.baseUrl);
+			const library = await client.listBooks() || [];
+			await this.removeDeletedBooks(library);
+			const books = library.filter(book => isBookIncluded(book, this.settings));
+
+			// Local highlight edits are only pushed by a regular sync; previewing their books would overwrite them
+			const editedBookIds = new Set(this.settings.pushHighlightEdits
+				? (await this.collectLocalHighlightEdits()).map(edit => edit.bookId)
+				: []);
+			const booksToSync = await this.getBooksToSync(client, books);
+			skippedBooks = booksToSync.filter(book => editedBookIds.has(book.id));
+			for (const book of booksToSync) {
+				if (!editedBookIds.has(book.id)) {
+					await this.syncBookHighlights(book, client.iterateHighlights(book.id));
+				}
+			}
+			previewState = this.syncState.state;
+		} catch (error) {
+			console.error('Error during BookRise sync preview:', error);
+			new Notice(`BookRise sync preview failed. ${describeBookriseError(error)}`);
+			if (error instanceof AuthError) this.promptForApiKey(this.activeProfile, describeBookriseError(error));
+			return;
+		} finally {
+			this.syncState.state = savedState;
+			this.syncPreview = null;
+			this.syncedNoteIndex = null;
+			this.isSyncing = false;
+		}
+
+		if (preview.changes.length === 0 && skippedBooks.length === 0) {
+			new Notice('BookRise sync preview: nothing would change.');
+			return;
+		}
+		new SyncPreviewModal(this.app, preview.changes, skippedBooks, (selected) => {
+			// The sync state only moves forward when everything was applied; otherwise the
+			// next sync works out the remaining changes again
+			const complete = selected.length === preview.changes.length && skippedBooks.length === 0;
+			this.applySyncPreview(selected, complete ? { ...previewState, lastSyncedAt: syncStartedAt } : null);
+		}).open();
+	}
+
+	// Write previewed changes in the order they were recorded. Changes whose file was edited
+	// or moved since the preview are skipped rather than overwritten.
+	async applySyncPreview(changes: PlannedChange[], resultingState: SyncState | null) {
+		if (this.isSyncing) {
+			new Notice('A BookRise sync is already running. Preview again once it has finished.');
+			return;
+		}
+		this.isSyncing = true;
+		let applied = 0;
+		let skipped = 0;
+		try {
+			for (const change of changes) {
+				try {
+					if (await this.applyPlannedChange(change)) {
+						applied++;
+					} else {
+						console.warn(`Skipped previewed change (${change.type}) of ${change.path}: the vault changed since the preview.`);
+						skipped++;
+					}
+				} catch (error) {
+					console.error(`Failed to apply previewed change (${change.type}) of ${change.path}:`, error);
+					skipped++;
+				}
+			}
+			if (resultingState && skipped === 0) {
+				this.syncState.state = resultingState;
+				await this.syncState.save();
+			}
+		} finally {
+			this.isSyncing = false;
+		}
+
+		let message = `Applied ${applied} BookRise changes.`;
+		if (skipped > 0) message += ` Skipped ${skipped} that no longer match the vault; check console.`;
+		new Notice(message);
+		this.setSyncStatus(`BookRise: synced ${new Date().toLocaleTimeString()}`, message);
+		this.refreshDashboardViews();
+	}
+
+	// Returns false when the vault no longer matches what the preview saw
+	async applyPlannedChange(change: PlannedChange): Promise<boolean> {
+		const parentPath = (path: string) => path.substring(0, path.lastIndexOf('/'));
+		const target = this.app.vault.getAbstractFileByPath(change.path);
+
+		switch (change.type) {
+			case 'create':
+				if (target) return false;
+				if (parentPath(change.path)) await this.ensureFolderExists(parentPath(change.path));
+				await this.app.vault.create(change.path, change.content);
+				return true;
+			case 'modify':
+				if (!(target instanceof TFile) || await this.app.vault.read(target) !== change.before) return false;
+				await this.app.vault.modify(target, change.content);
+				return true;
+			case 'rename':
+				if (!target || this.app.vault.getAbstractFileByPath(change.newPath)) return false;
+				if (parentPath(change.newPath)) await this.ensureFolderExists(parentPath(change.newPath));
+				await this.app.fileManager.renameFile(target, change.newPath);
+				return true;
+			case 'remove':
+				return this.handleRemovedFromBookrise(change.path);
+		}
+	}
+
+	// Export the library straight from the API, optionally narrowed down by the sync's book and color filters
+	async exportHighlights(format: ExportFormat, destination: ExportDestination, useSyncFilters: boolean) {
+		const client = this.client;
+		if (!client) return;
+		new Notice(`Exporting BookRise library as ${EXPORT_FORMAT_NAMES[format]}...`, 5000);
+
+		try {
+			const library = await client.listBooks() || [];
+			const books = useSyncFilters ? library.filter(book => isBookIncluded(book, this.settings)) : library;
+			const exported: ExportedBook[] = [];
+			for (const book of books) {
+				let highlights: Highlight[] = [];
+				if (exportNeedsHighlights(format)) {
+					highlights = await client.listHighlights(book.id) || [];
+					if (useSyncFilters) highlights = highlights.filter(hl => isHighlightIncluded(hl, this.settings));
+				}
+				exported.push({ book, highlights });
+			}
+
+			const file = renderExport(format, exported, new Date().toISOString());
+			const fileName = `BookRise ${format} export ${momentFn().format('YYYY-MM-DD HH-mm')}.${file.extension}`;
+			if (destination === 'vault') {
+				const folderPath = normalizePath(`${this.activeProfile.syncFolder}/Exports`);
+				await this.ensureFolderExists(folderPath);
+				const filePath = normalizePath(`${folderPath}/${fileName}`);
+				const existing = this.app.vault.getAbstractFileByPath(filePath);
+				if (existing instanceof TFile) {
+					await this.app.vault.modify(existing, file.content);
+				} else {
+					await this.app.vault.create(filePath, file.content);
+				}
+				new Notice(`Exported ${exported.length} books to ${filePath}.`);
+			} else {
+				// Hands the file to the system's save dialog / downloads folder
+				const url = URL.createObjectURL(new Blob([file.content], { type: file.mimeType }));
+				const linkEl = document.body.createEl('a', { attr: { href: url, download: fileName } });
+				linkEl.click();
+				linkEl.remove();
+				window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+				new Notice(`Exported ${exported.length} books as ${fileName}.`);
+			}
+		} catch (error) {
+			console.error('Error exporting BookRise highlights:', error);
+			if (error instanceof AuthError) {
+				this.promptForApiKey(this.activeProfile, describeBookriseError(error));
+				return;
+			}
+			new Notice(`BookRise export failed. ${describeBookriseError(error)}`);
+		}
+	}
+
+	// Write imported books through the regular sync rendering, so they share its layout and folders.
+	// Importing the same file again updates the notes instead of duplicating them.
+	async importHighlights(content: string, format: ImportFormat) {
+		if (this.isSyncing) {
+			new Notice('A BookRise sync is running. Import again once it has finished.');
+			return;
+		}
+
+		let books;
+		try {
+			books = format === 'kindle' ? parseKindleClippings(content) : parseReadwiseCsv(content);
+		} catch (error) {
+			console.error(`Could not read the ${IMPORT_SOURCE_NAMES[format]} file:`, error);
+			new Notice(error instanceof Error ? error.message : `Could not read the ${IMPORT_SOURCE_NAMES[format]} file.`);
+			return;
+		}
+		if (books.length === 0) {
+			new Notice(`No highlights found in the ${IMPORT_SOURCE_NAMES[format]} file.`);
+			return;
+		}
+
+		this.isSyncing = true;
+		let importedHighlights = 0;
+		let errorCount = 0;
+		try {
+			await this.ensureFolderExists(this.profile.syncFolder);
+			for (const { book, highlights } of books) {
+				try {
+					await this.syncBookHighlights(book, [highlights]);
+					importedHighlights += highlights.length;
+				} catch (error) {
+					console.error(`Failed to import highlights for book: ${book.title}`, error);
+					errorCount++;
+				}
+			}
+			await this.syncState.save();
+		} finally {
+			this.isSyncing = false;
+			this.syncedNoteIndex = null;
+		}
+
+		let message = `Imported ${importedHighlights} highlights from ${books.length - errorCount} ${IMPORT_SOURCE_NAMES[format]} books.`;
+		if (errorCount > 0) message += ` Failed for ${errorCount} books; check console.`;
+		new Notice(message);
+	}
+
+	// Push notes and colors edited in the vault to BookRise. A highlight that also changed in
+	// BookRise since the last sync is a conflict: interactive syncs ask which version to keep,
+	// background syncs leave its book out of the sync until the user decides.
+	async pushLocalHighlightEdits(client: BookriseClient, background: boolean): Promise<PushEditsResult> {
+		const result: PushEditsResult = { pushed: 0, conflictedBookIds: new Set() };
+		if (!this.settings.pushHighlightEdits) return result;
+
+		const edits = await this.collectLocalHighlightEdits();
+		// Colors as BookRise spells them, to send edited colors back in that spelling
+		const syncedColors = new Set(Object.values(this.syncState.state.highlights).map(synced => synced.color));
+		for (const edit of edits) {
+			let remote: Highlight;
+			try {
+				remote = await client.getHighlight(edit.highlightId);
+			} catch (error) {
+				// Deleted in BookRise; the sync applies the deletion policy
+				if (error instanceof NotFoundError) continue;
+				throw error;
+			}
+
+			const remoteFields = normalizeHighlightFields(remote.note, remote.color);
+			if (hashHighlightFields(edit.fields) === hashHighlightFields(remoteFields)) {
+				// Made the same edit on both sides: nothing to push or resolve
+				this.syncState.recordHighlight(remote, edit.bookId, edit.path);
+				continue;
+			}
+			const remoteChanged = (!edit.synced.updatedAt || remote.updated_at !== edit.synced.updatedAt)
+				&& hashHighlightFields(remoteFields) !== edit.synced.hash;
+			if (remoteChanged) {
+				const choice = background ? 'skip' : await this.resolveHighlightConflict(remote, edit.fields, remoteFields);
+				if (choice === 'skip') {
+					result.conflictedBookIds.add(edit.bookId);
+					continue;
+				}
+				if (choice === 'remote') continue; // The sync overwrites the local edit
+			}
+
+			// Only send what differs, so other changes made in BookRise are kept
+			const color = edit.fields.color && toBookriseColor(edit.fields.color, [remote.color, ...syncedColors]);
+			const update: HighlightUpdate = {};
+			if (edit.fields.note !== remoteFields.note) update.note = edit.fields.note || null;
+			if (edit.fields.color !== remoteFields.color) update.color = color || null;
+			let pushed: Highlight = { ...remote, note: edit.fields.note, color };
+			if (Object.keys(update).length > 0) {
+				pushed = await client.updateHighlight(edit.highlightId, update) ?? pushed;
+				result.pushed++;
+				console.log(`Pushed edits of BookRise highlight ${edit.highlightId} from ${edit.path}`);
+			}
+			this.syncState.recordHighlight(pushed, edit.bookId, edit.path);
+		}
+		await this.syncState.save();
+		return result;
+	}
+
+	// Find synced highlights whose note or color differs from what the last sync wrote.
+	// Only the built-in layout can be read back, so nothing is found with a custom highlight template.
+	async collectLocalHighlightEdits(): Promise<LocalHighlightEdit[]> {
+		const templates = await this.loadTemplates();
+		if (templates.highlight) return [];
+
+		const noteIndex = this.getSyncedNoteIndex();
+		const bookNoteHighlights = new Map<string, Map<string, HighlightFields>>();
+		const edits: LocalHighlightEdit[] = [];
+
+		for (const [highlightId, synced] of Object.entries(this.syncState.state.highlights)) {
+			if (!synced.hash) continue; // Synced before edits were tracked
+			if (isImportedId(highlightId)) continue; // Not in BookRise, nowhere to push to
+
+			const inBookNote = synced.path === this.syncState.state.books[synced.bookId]?.path;
+			const file = (inBookNote ? noteIndex.books.get(synced.bookId) : noteIndex.highlights.get(highlightId))
+				?? this.app.vault.getAbstractFileByPath(synced.path);
+			if (!(file instanceof TFile)) continue;
+
+			let fields: HighlightFields | undefined;
+			if (inBookNote) {
+				let highlights = bookNoteHighlights.get(file.path);
+				if (!highlights) {
+					highlights = parseBookHighlightList(await this.app.vault.cachedRead(file));
+					bookNoteHighlights.set(file.path, highlights);
+				}
+				fields = highlights.get(highlightId.substring(0, 8));
+			} else {
+				fields = parseHighlightNote(await this.app.vault.cachedRead(file), MY_NOTES_HEADING);
+			}
+
+			if (fields && hashHighlightFields(fields) !== synced.hash) {
+				edits.push({ highlightId, bookId: synced.bookId, path: file.path, fields, synced });
+			}
+		}
+		return edits;
+	}
+
+	// Whether the next sync should go through every book to find highlights deleted in BookRise
+	isReconcileDue(): boolean {
+		const lastReconciledAt = this.syncState.state.lastReconciledAt;
+		return !lastReconciledAt || Date.now() - Date.parse(lastReconciledAt) >= RECONCILE_INTERVAL_MS;
+	}
+
+	resolveHighlightConflict(highlight: Highlight, local: HighlightFields, remote: HighlightFields): Promise<ConflictChoice> {
+		return new Promise(resolve => {
+			new HighlightConflictModal(this.app, highlight, local, remote, resolve).open();
+		});
+	}
+
+	// Decide which books need a resync: books with highlights changed since the last
+	// sync, plus books that are new, whose metadata changed, or whose note went missing.
+	async getBooksToSync(client: BookriseClient, books: Book[]): Promise<Book[]> {
+		const lastSyncedAt = this.syncState.state.lastSyncedAt;
+		if (!lastSyncedAt) {
+			return books; // First sync (or invalidated state): everything
+		}
+		if (this.isReconcileDue()) {
+			return books; // Unchanged notes are not rewritten; deleted highlights are removed
+		}
+
+		const recentHighlights = await client.getRecentHighlights(lastSyncedAt) || [];
+		const changedBookIds = new Set<string>();
+		recentHighlights.forEach(hl => {
+			const bookId = hl.book_id || this.syncState.state.highlights[hl.id]?.bookId;
+			if (bookId) {
+				changedBookIds.add(bookId);
+			} else {
+				console.warn(`Recent highlight ${hl.id} has no book_id and is not in the sync state, skipping.`);
+			}
+		});
+
+		return books.filter(book => {
+			if (changedBookIds.has(book.id) || this.syncState.isBookChanged(book)) {
+				return true;
+			}
+			const knownPath = this.syncState.state.books[book.id]?.path;
+			return !knownPath || !this.app.vault.getAbstractFileByPath(knownPath);
+		});
+	}
+
+	// Helper to sanitize file names
+	sanitizeFileName(name: string): string {
+		return name.replace(/[\/\\:\*\?\"\<\>\|]/g, '-').replace(/\s+/g, ' ');
+	}
+
+	// Highlight pages come from the profile's client, or from the parsed file for imported books
+	async syncBookHighlights(book: Book, pages: AsyncIterable<Highlight[]> | Iterable<Highlight[]>): Promise<BookSyncResult> {
+		const result: BookSyncResult = { removedHighlights: 0, newHighlights: [] };
+
+		const bookFolderParent = this.getBookSyncFolder(book.id);
+		const perHighlight = this.usesNotePerHighlight(book.id);
+		const bookFolderName = this.sanitizeFileName(book.title);
+		const mainBookSanitizedTitle = this.sanitizeFileName(book.title);
+		const noteIndex = this.getSyncedNoteIndex();
+
+		// Notes are found by their `id` frontmatter; a retitled book is renamed, not duplicated
+		const mainBookFilePath = await this.relocateBookNote(
+			book,
+			`${bookFolderParent}/${bookFolderName}`.replace(/\/\//g, '/'),
+			mainBookSanitizedTitle,
+			noteIndex
+		);
+		const bookFolderPath = mainBookFilePath.substring(0, mainBookFilePath.lastIndexOf('/'));
+		await this.ensureFolderExists(bookFolderPath);
+
+		const templates = await this.loadTemplates();
+		const highlightsFolder = `${bookFolderPath}/_Highlights`;
+
+		// What each highlight contributes to the book note: a list item in single-file
+		// mode, an index link in per-highlight mode
+		const highlightEntries: string[] = [];
+		// Per-highlight data for a user-defined book note template, only kept when one is set
+		const highlightContexts: TemplateContext[] = [];
+		const currentHighlightIds = new Set<string>();
+		// Left out by the color filter; still in BookRise, so not handled as deleted
+		const skippedHighlightIds = new Set<string>();
+
+		const previousHighlights = this.syncState.highlightsOfBook(book.id);
+		this.syncState.forgetHighlightsOfBook(book.id);
+
+		// Put back if the sync of this book fails partway; a truncated state would hide
+		// highlights from deletion handling and edit pushing, and list them as new again later
+		try {
+			// Highlights are processed page by page, so large books are never held in memory as a whole
+			for await (const page of pages) {
+				if (perHighlight && currentHighlightIds.size === 0) {
+					await this.ensureFolderExists(highlightsFolder);
+				}
+
+				for (const hl of page) {
+					if (!isHighlightIncluded(hl, this.settings)) {
+						skippedHighlightIds.add(hl.id);
+						continue;
+					}
+					currentHighlightIds.add(hl.id);
+					const context = highlightTemplateContext(hl, book);
+					let entry: string;
+					let link: string | undefined;
+
+					if (perHighlight) {
+						// --- MODE: One note per highlight ---
+						link = await this.writeHighlightNote(hl, book, highlightsFolder, mainBookSanitizedTitle, templates, noteIndex);
+						entry = `- ${link}\n`;
+					} else {
+						// --- MODE: All highlights in one book file ---
+						entry = this.renderHighlightListItem(hl, book, templates);
+						this.syncState.recordHighlight(hl, book.id, mainBookFilePath);
+					}
+
+					if (!previousHighlights[hl.id]) {
+						const label = describeHighlight(hl, 60).replace(/[[\]|]/g, ''); // Would break the link
+						result.newHighlights.push({
+							book,
+							bookNotePath: mainBookFilePath,
+							link: perHighlight
+								? `[[${this.syncState.state.highlights[hl.id].path.replace(/\.md$/, '')}|${label}]]`
+								: `[[${mainBookFilePath.replace(/\.md$/, '')}#^${hl.id.substring(0, 8)}|${label}]]`,
+						});
+					}
+
+					highlightEntries.push(entry);
+					if (templates.book) {
+						highlightContexts.push({ ...context, link, content: entry });
+					}
+				}
+			}
+
+			// Always create/update the main book file, regardless of highlight mode or if highlights exist
+			let mainBookContent = `# ${book.title}\n\n`;
+			if (currentHighlightIds.size === 0) {
+				console.log(`No highlights found for book: ${book.title}`);
+				if (perHighlight) {
+					mainBookContent += 'No highlights found for this book.\n';
+				} else {
+					mainBookContent += `# Highlights for ${book.title}\n\n(No highlights found or synced for this book.)\n`;
+				}
+			} else if (perHighlight) {
+				console.log(`Processed ${currentHighlightIds.size} highlights for book: ${book.title}`);
+				mainBookContent += `This book's highlights are stored as individual notes in the "_Highlights" subfolder.
+
+## Highlights Index\n`;
+				mainBookContent += highlightEntries.join('');
+			} else {
+				console.log(`Processed ${currentHighlightIds.size} highlights for book: ${book.title}`);
+				mainBookContent += `# Highlights for ${book.title}\n\n`;
+				mainBookContent += highlightEntries.join('');
+			}
+
+			if (templates.book) {
+				mainBookContent = renderTemplate(templates.book, bookTemplateContext(book, highlightContexts));
+			}
+			const bookNote = this.generateBookFrontmatter(book) + mainBookContent + this.generateMyNotesSection();
+			await this.createOrUpdateFile(mainBookFilePath, bookNote);
+			this.syncState.recordBook(book, mainBookFilePath);
+			console.log(`Created/Updated main book file for: ${book.title} at ${mainBookFilePath}`);
+
+			// Highlights deleted in BookRise: their own notes get the deletion policy,
+			// in single-file mode regenerating the book note already dropped them.
+			for (const [highlightId, entry] of Object.entries(previousHighlights)) {
+				if (currentHighlightIds.has(highlightId) || skippedHighlightIds.has(highlightId)) continue;
+				result.removedHighlights++;
+				// The recorded path may be stale if the book folder was renamed above
+				const notePath = noteIndex.highlights.get(highlightId)?.path ?? entry.path;
+				if (notePath !== mainBookFilePath) {
+					await this.handleRemovedFromBookrise(notePath);
+				}
+			}
+		} catch (error) {
+			this.syncState.restoreHighlightsOfBook(book.id, previousHighlights);
+			throw error;
+		}
+		return result;
+	}
+
+	// Write (or rename and update) a highlight's own note and record it in the sync state.
+	// Returns the link to it for the book note's index.
+	async writeHighlightNote(
+		hl: Highlight,
+		book: Book,
+		highlightsFolder: string,
+		bookNoteName: string,
+		templates: SyncTemplates,
+		noteIndex: SyncedNoteIndex
+	): Promise<string> {
+		const noteTitlePrefix = this.sanitizeFileName(shortHighlightText(hl));
+		const noteFileName = `${this.generateHighlightFileName(hl, book, templates.fileName)}.md`;
+		const noteFilePath = await this.relocateHighlightNote(
+			hl.id,
+			`${highlightsFolder}/${noteFileName}`.replace(/\/\//g, '/'),
+			noteIndex
+		);
+
+		let noteContent = this.generateHighlightNoteFrontmatter(hl, book, bookNoteName); // Pass main book title for linking back
+		noteContent += templates.highlight
+			? this.renderHighlightTemplate(templates.highlight, highlightTemplateContext(hl, book))
+			: this.formatSingleHighlightContent(hl);
+		noteContent += this.generateMyNotesSection();
+
+		await this.createOrUpdateFile(noteFilePath, noteContent);
+		this.syncState.recordHighlight(hl, book.id, noteFilePath);
+		console.log(`Created/Updated highlight note: ${noteFilePath} for book ${book.title}`);
+		// Use relative path for linking from main book note when the note lives in its _Highlights folder
+		const linkTarget = noteFilePath.startsWith(`${highlightsFolder}/`)
+			? `_Highlights/${noteFilePath.substring(highlightsFolder.length + 1)}`
+			: noteFilePath;
+		return `[[${linkTarget.replace(/\.md$/, '')}|${noteTitlePrefix} (${hl.color || 'highlight'})]]`;
+	}
+
+	// A highlight as it appears in the book note in single-file mode
+	renderHighlightListItem(hl: Highlight, book: Book, templates: SyncTemplates): string {
+		return templates.highlight
+			? this.renderHighlightTemplate(templates.highlight, highlightTemplateContext(hl, book))
+			: this.formatSingleHighlightAsListItem(hl);
+	}
+
+	// Index of synced notes in the vault by BookRise ID, read from the `id`/`highlight_id`
+	// frontmatter. Built once per sync run; TFile references follow renames.
+	getSyncedNoteIndex(): SyncedNoteIndex {
+		if (this.syncedNoteIndex) {
+			return this.syncedNoteIndex;
+		}
+		const index: SyncedNoteIndex = { books: new Map(), highlights: new Map() };
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			if (!frontmatter || this.getProfileOfNote(frontmatter) !== this.profile) continue;
+			if (frontmatter.highlight_id) {
+				index.highlights.set(String(frontmatter.highlight_id), file);
+			} else if (isSyncedBookNote(frontmatter)) {
+				index.books.set(String(frontmatter.id), file);
+			}
+		}
+		this.syncedNoteIndex = index;
+		return index;
+	}
+
+	// Move an already synced book note (and its folder) to the paths derived from the
+	// book's current title. Returns the path the book note should be written to.
+	async relocateBookNote(book: Book, desiredFolderPath: string, desiredFileName: string, noteIndex: SyncedNoteIndex): Promise<string> {
+		const desiredFilePath = `${desiredFolderPath}/${desiredFileName}.md`;
+		const existing = noteIndex.books.get(book.id);
+		if (!existing || existing.path === desiredFilePath) {
+			return desiredFilePath;
+		}
+
+		// Only rename the folder when it is the book's own folder, named like its old note
+		let currentPath = existing.path;
+		const oldFolder = existing.parent;
+		if (
+			oldFolder &&
+			oldFolder.name === existing.basename &&
+			oldFolder.path !== desiredFolderPath &&
+			!this.getFileForSync(desiredFolderPath)
+		) {
+			console.log(`Renaming BookRise book folder ${oldFolder.path} -> ${desiredFolderPath}`);
+			await this.renameForSync(oldFolder, oldFolder.path, desiredFolderPath);
+			currentPath = `${desiredFolderPath}/${existing.name}`;
+		}
+
+		if (currentPath !== desiredFilePath) {
+			if (this.getFileForSync(desiredFilePath)) {
+				console.warn(`Cannot rename ${currentPath} to ${desiredFilePath}: the path is taken. Keeping the current name.`);
+				return currentPath;
+			}
+			await this.ensureFolderExists(desiredFolderPath);
+			console.log(`Renaming BookRise book note ${currentPath} -> ${desiredFilePath}`);
+			await this.renameForSync(existing, currentPath, desiredFilePath);
+			currentPath = desiredFilePath;
+		}
+		return currentPath;
+	}
+
+	// Rename an already synced highlight note to its current file name.
+	// Returns the path the highlight note should be written to.
+	async relocateHighlightNote(highlightId: string, desiredFilePath: string, noteIndex: SyncedNoteIndex): Promise<string> {
+		const existing = noteIndex.highlights.get(highlightId);
+		if (!existing || existing.path === desiredFilePath) {
+			return desiredFilePath;
+		}
+		// The book folder may have been renamed earlier in this run
+		const currentPath = this.syncPreview ? this.syncPreview.currentPath(existing.path) : existing.path;
+		if (currentPath === desiredFilePath) {
+			return desiredFilePath;
+		}
+		if (this.getFileForSync(desiredFilePath)) {
+			console.warn(`Cannot rename ${currentPath} to ${desiredFilePath}: the path is taken. Keeping the current name.`);
+			return currentPath;
+		}
+		console.log(`Renaming BookRise highlight note ${currentPath} -> ${desiredFilePath}`);
+		await this.renameForSync(existing, currentPath, desiredFilePath);
+		return desiredFilePath;
+	}
+
+	// Vault lookup that sees the changes recorded so far during a dry run
+	getFileForSync(path: string): TAbstractFile | null {
+		return this.syncPreview ? this.syncPreview.getAbstractFileByPath(path) : this.app.vault.getAbstractFileByPath(path);
+	}
+
+	// `currentPath` differs from the item's path only during a dry run, after an earlier recorded rename
+	async renameForSync(item: TAbstractFile, currentPath: string, newPath: string): Promise<void> {
+		if (this.syncPreview) {
+			this.syncPreview.record({ type: 'rename', path: currentPath, newPath });
+			return;
+		}
+		await this.app.fileManager.renameFile(item, newPath);
+	}
+
+	// Resolve the configured templates. An empty template means the built-in layout.
+	async loadTemplates(): Promise<SyncTemplates> {
+		return {
+			book: await this.resolveTemplate(this.settings.bookNoteTemplate),
+			highlight: await this.resolveTemplate(this.settings.highlightTemplate),
+			fileName: this.settings.highlightFileNameTemplate.trim() || DEFAULT_SETTINGS.highlightFileNameTemplate,
+		};
+	}
+
+	// A template setting holds either the template itself or the path of a vault note containing it
+	async resolveTemplate(value: string): Promise<string> {
+		const trimmed = value.trim();
+		if (/^[^\n]+\.md$/.test(trimmed)) {
+			const file = this.app.vault.getAbstractFileByPath(normalizePath(trimmed));
+			if (!(file instanceof TFile)) {
+				throw new Error(`BookRise template file not found: ${trimmed}`);
+			}
+			return this.app.vault.read(file);
+		}
+		return trimmed ? value : '';
+	}
+
+	// Helper to render a user-defined highlight template; items are always newline-terminated
+	renderHighlightTemplate(template: string, context: TemplateContext): string {
+		const rendered = renderTemplate(template, context);
+		return rendered.endsWith('\n') ? rendered : `${rendered}\n`;
+	}
+
+	// Helper to build a highlight note's file name (without extension) from the file-name template
+	generateHighlightFileName(hl: Highlight, book: Book, template: string): string {
+		const name = this.sanitizeFileName(renderTemplate(template, highlightTemplateContext(hl, book))).trim();
+		return name || this.sanitizeFileName(hl.id).substring(0, 8);
+	}
+
+	// Helper to generate the frontmatter of the main book file
+	generateBookFrontmatter(book: Book): string {
+		const existingBookTags = book.tags || []; // Tags coming from BookRise for the book itself
+		const pluginAddedTags = ['BookRise']; // Default tag added by the plugin
+		if (book.author) {
+			const authorTag = book.author.replace(/[^a-zA-Z0-9\-_]/g, '_');
+			pluginAddedTags.push(`author/${authorTag}`);
+		}
+		// Combine tags from book data and plugin-added tags, ensuring uniqueness
+		const allTags = Array.from(new Set([...existingBookTags, ...pluginAddedTags]));
+
+		const properties: FrontmatterProperties = {
+			title: book.title,
+			id: book.id,
+			author: book.author || undefined,
+			isbn: book.isbn || undefined,
+			percent_read: book.percent_read,
+			tags: allTags.length > 0 ? allTags.map(t => t.replace(/:/g, '-')) : undefined,
+			source: book.source ?? 'BookRise',
+			profile: this.profile.name,
+		};
+		return `${formatFrontmatter(applyPropertyNames(properties, this.settings.propertyNames, RESERVED_PROPERTY_NAMES))}\n`;
+	}
+
+	// Helper to generate the frontmatter of an individual highlight note
+	generateHighlightNoteFrontmatter(hl: Highlight, book: Book, bookSanitizedFileNameForLink: string): string {
+		let noteTitle = 'BookRise Highlight';
+		if (hl.text_content) {
+			noteTitle = hl.text_content.trim().split(' ').slice(0, 7).join(' ');
+			if (hl.text_content.trim().split(' ').length > 7) noteTitle += '...';
+		} else if (hl.note) {
+			noteTitle = `Note: ${hl.note.trim().split(' ').slice(0, 6).join(' ')}`;
+			if (hl.note.trim().split(' ').length > 6) noteTitle += '...';
+		}
+
+		const tags = ['BookRise', 'BookRiseHighlight'];
+		if (book.author) {
+			const authorTag = book.author.replace(/[^a-zA-Z0-9\-_]/g, '_');
+			tags.push(`author/${authorTag}`);
+		}
+		if (hl.color) {
+			const colorTag = `hlcolor/${hl.color.toLowerCase().replace(/\s+/g, '_')}`;
+			tags.push(colorTag);
+		}
+
+		const properties: FrontmatterProperties = {
+			title: noteTitle.replace(/\s+/g, ' '),
+			book: `[[${bookSanitizedFileNameForLink}]]`,
+			book_id: book.id,
+			highlight_id: hl.id,
+			source: book.source,
+			profile: this.profile.name,
+			color: hl.color || undefined,
+			page: hl.page || undefined,
+			location: hl.location || undefined,
+			highlight_created_at: hl.created_at || undefined,
+			tags: tags.map(t => t.replace(/:/g, '-')),
+		};
+		return `${formatFrontmatter(applyPropertyNames(properties, this.settings.propertyNames, RESERVED_PROPERTY_NAMES))}\n`;
+	}
+
+	// Helper to format a single highlight as a list item (used in one-file-per-book mode)
+	formatSingleHighlightAsListItem(hl: Highlight): string {
+		const blockId = hl.id ? hl.id.substring(0, 8) : Math.random().toString(36).substring(2, 10);
+		const metadataParts = [];
+		if (hl.page) metadataParts.push(`p. ${hl.page}`);
+		if (hl.location) metadataParts.push(`loc. ${hl.location}`);
+		const metadataString = metadataParts.length > 0 ? ` (${metadataParts.join(', ')})` : '';
+		
+		let colorTagString = '';
+		if (hl.color) {
+			colorTagString = ` #hlcolor/${hl.color.toLowerCase().replace(/\s+/g, '_')}`;
 		}
 
 		let primaryLineContent = '';
@@ -601,25 +2824,205 @@ export default class BookrisePlugin extends Plugin {
 		return content;
 	}
 
-	// Helper to create or update a file
-	async createOrUpdateFile(filePath: string, content: string): Promise<void> {
-		const existingFile = this.app.vault.getAbstractFileByPath(filePath);
-		if (existingFile && existingFile instanceof TFile) {
-			await this.app.vault.modify(existingFile, content);
-		} else {
-			await this.app.vault.create(filePath, content);
+	// Folder of a book's synced notes, falling back to where the next sync would put it
+	getBookFolderPath(book: Book): string {
+		const bookNotePath = this.activeSyncState.state.books[book.id]?.path;
+		if (bookNotePath && this.app.vault.getAbstractFileByPath(bookNotePath)) {
+			return bookNotePath.substring(0, bookNotePath.lastIndexOf('/'));
 		}
+		return `${this.getBookSyncFolder(book.id, this.activeProfile)}/${this.sanitizeFileName(book.title)}`.replace(/\/\//g, '/');
 	}
 
-	// Helper function to ensure a folder exists
-	async ensureFolderExists(folderPath: string): Promise<void> {
-		try {
-			const folder = this.app.vault.getAbstractFileByPath(folderPath);
-			if (!folder) {
-				await this.app.vault.createFolder(folderPath);
-				console.log(`Created folder: ${folderPath}`);
-			} else if (!(folder instanceof TFolder)) {
-                new Notice(`Error: ${folderPath} exists but is a file, not a folder.`);
+	// Folder a book's notes are synced into, from its override or the global setting
+	getBookSyncFolder(bookId: string, profile = this.profile): string {
+		return this.settings.bookOverrides[bookId]?.folder?.trim() || profile.syncFolder;
+	}
+
+	// Whether a book gets one note per highlight, from its override or the global setting
+	usesNotePerHighlight(bookId: string): boolean {
+		const mode = this.settings.bookOverrides[bookId]?.mode;
+		return mode ? mode === 'per-highlight' : this.settings.createNotePerHighlight;
+	}
+
+	// Vault links for the paragraphs and chapters an AI answer cites. Paragraphs that are
+	// synced highlights link to their note (or block in single-file mode); chapters link to
+	// a matching heading in the book note, or to the book note itself.
+	resolveCitations(book: Book, citedParagraphIds: string[], citedChapters: number[]): ChatCitation[] {
+		const citations: ChatCitation[] = [];
+		const bookNotePath = this.activeSyncState.state.books[book.id]?.path;
+
+		for (const paragraphId of citedParagraphIds) {
+			const synced = this.activeSyncState.state.highlights[paragraphId];
+			if (!synced || !this.app.vault.getAbstractFileByPath(synced.path)) {
+				citations.push({ label: `¶ ${paragraphId.substring(0, 8)}`, linktext: null, tooltip: 'Cited passage (not synced to this vault)' });
+				continue;
+			}
+			const inBookNote = synced.path === bookNotePath;
+			const notePath = synced.path.replace(/\.md$/, '');
+			citations.push({
+				label: inBookNote ? `¶ ^${paragraphId.substring(0, 8)}` : `¶ ${notePath.substring(notePath.lastIndexOf('/') + 1)}`,
+				linktext: inBookNote ? `${notePath}#^${paragraphId.substring(0, 8)}` : notePath,
+				tooltip: 'Cited highlight',
+			});
+		}
+
+		const bookNote = bookNotePath ? this.app.vault.getAbstractFileByPath(bookNotePath) : null;
+		for (const chapter of citedChapters) {
+			if (!(bookNote instanceof TFile)) {
+				citations.push({ label: `Chapter ${chapter}`, linktext: null, tooltip: 'Cited chapter (book not synced to this vault)' });
+				continue;
+			}
+			const chapterPattern = new RegExp(`^(chapter\\s+${chapter}\\b|${chapter}[.:\\s])`, 'i');
+			const heading = this.app.metadataCache.getFileCache(bookNote)?.headings?.find(h => chapterPattern.test(h.heading));
+			const notePath = bookNote.path.replace(/\.md$/, '');
+			citations.push({
+				label: `Chapter ${chapter}`,
+				linktext: heading ? `${notePath}#${heading.heading}` : notePath,
+				tooltip: heading ? `Cited chapter: ${heading.heading}` : 'Cited chapter',
+			});
+		}
+		return citations;
+	}
+
+	// Saved chat conversations about a book, newest first
+	getChatNotes(bookId: string): TFile[] {
+		return this.app.vault.getMarkdownFiles()
+			.filter(file => {
+				const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+				return frontmatter?.type === CHAT_NOTE_TYPE && String(frontmatter.book_id) === bookId
+					&& this.getProfileOfNote(frontmatter) === this.activeProfile;
+			})
+			.sort((a, b) => b.stat.ctime - a.stat.ctime);
+	}
+
+	// Helper for the protected "My Notes" section at the end of every synced note
+	generateMyNotesSection(): string {
+		return `${MY_NOTES_HEADING}\n${protectedRegion(MY_NOTES_REGION)}`;
+	}
+
+	// Property names configured in place of the default ones
+	getCustomPropertyNames(): string[] {
+		return Object.values(this.settings.propertyNames)
+			.map(name => name.trim())
+			.filter(name => name && name !== OMITTED_PROPERTY);
+	}
+
+	// Helper to create or update a synced note. User-written regions and
+	// frontmatter of an existing note are merged into the new content.
+	async createOrUpdateFile(filePath: string, content: string): Promise<void> {
+		const existingFile = this.getFileForSync(filePath);
+		if (existingFile && existingFile instanceof TFile) {
+			const existingContent = await this.app.vault.read(existingFile);
+			// Names from the last sync are still owned, so renaming a property again drops the old one
+			const ownedKeys = [
+				...BOOKRISE_FRONTMATTER_KEYS,
+				...this.getCustomPropertyNames(),
+				...this.syncState.state.propertyNames,
+			];
+			const mergedContent = mergeWithExistingNote(existingContent, content, ownedKeys, isGeneratedTag);
+			// Skip the write when nothing changed, so unchanged notes keep their mtime
+			if (existingContent === mergedContent) return;
+			if (this.syncPreview) {
+				this.syncPreview.record({ type: 'modify', path: filePath, before: existingContent, content: mergedContent });
+				return;
+			}
+			await this.app.vault.modify(existingFile, mergedContent);
+		} else {
+			if (this.syncPreview) {
+				this.syncPreview.record({ type: 'create', path: filePath, content });
+				return;
+			}
+			await this.app.vault.create(filePath, content);
+		}
+	}
+
+	// Append newly synced highlights to today's daily note, grouped by book.
+	// The note is found (or created from its template) like the core Daily notes plugin does.
+	async addHighlightsToDailyNote(highlights: NewlySyncedHighlight[]): Promise<void> {
+		const config = await this.loadDailyNotesConfig();
+		const dailyNotePath = this.getDailyNotePath(config);
+		let dailyNote = this.app.vault.getAbstractFileByPath(dailyNotePath);
+		if (!dailyNote) {
+			const parentPath = dailyNotePath.substring(0, dailyNotePath.lastIndexOf('/'));
+			if (parentPath) await this.ensureFolderExists(parentPath);
+			dailyNote = await this.app.vault.create(dailyNotePath, await this.renderDailyNoteTemplate(config, dailyNotePath));
+		}
+		if (!(dailyNote instanceof TFile)) {
+			throw new Error(`Daily note path ${dailyNotePath} is not a file.`);
+		}
+
+		const byBook = new Map<string, NewlySyncedHighlight[]>();
+		for (const hl of highlights) {
+			const group = byBook.get(hl.book.id) ?? [];
+			group.push(hl);
+			byBook.set(hl.book.id, group);
+		}
+
+		let section = '';
+		for (const group of byBook.values()) {
+			const { book, bookNotePath } = group[0];
+			section += `\n### [[${bookNotePath.replace(/\.md$/, '')}|${book.title}]]\n`;
+			section += group.map(hl => `- ${hl.link}\n`).join('');
+		}
+
+		await this.app.vault.process(dailyNote, content => {
+			const heading = content.includes(DAILY_NOTE_HEADING) ? '' : `\n${DAILY_NOTE_HEADING}\n`;
+			const separator = content === '' || content.endsWith('\n') ? '' : '\n';
+			return `${content}${separator}${heading}${section}`;
+		});
+		console.log(`Added ${highlights.length} new BookRise highlights to ${dailyNotePath}`);
+	}
+
+	// The core Daily notes settings; empty (all defaults) when they can't be read
+	async loadDailyNotesConfig(): Promise<DailyNotesConfig> {
+		const configPath = normalizePath(`${this.app.vault.configDir}/daily-notes.json`);
+		try {
+			if (await this.app.vault.adapter.exists(configPath)) {
+				return JSON.parse(await this.app.vault.adapter.read(configPath));
+			}
+		} catch (error) {
+			console.warn('Could not read the Daily notes settings, using the defaults:', error);
+		}
+		return {};
+	}
+
+	// Path of today's daily note from the core Daily notes settings, with its defaults
+	getDailyNotePath(config: DailyNotesConfig): string {
+		const fileName = momentFn().format(config.format?.trim() || 'YYYY-MM-DD');
+		const folder = config.folder?.trim() ?? '';
+		return normalizePath(folder ? `${folder}/${fileName}.md` : `${fileName}.md`);
+	}
+
+	// Content of a new daily note: the configured template with the same {{date}}, {{time}}
+	// and {{title}} placeholders the core Daily notes plugin fills in, or empty without one
+	async renderDailyNoteTemplate(config: DailyNotesConfig, dailyNotePath: string): Promise<string> {
+		const templatePath = config.template?.trim();
+		if (!templatePath) return '';
+
+		const template = this.app.metadataCache.getFirstLinkpathDest(templatePath, '');
+		if (!template) {
+			console.warn(`Daily note template ${templatePath} not found, creating an empty daily note.`);
+			return '';
+		}
+
+		const now = momentFn();
+		const title = dailyNotePath.substring(dailyNotePath.lastIndexOf('/') + 1).replace(/\.md$/, '');
+		return (await this.app.vault.cachedRead(template))
+			.replace(/{{\s*date\s*(?::(.*?))?\s*}}/gi, (_, format?: string) => now.format(format?.trim() || config.format?.trim() || 'YYYY-MM-DD'))
+			.replace(/{{\s*time\s*(?::(.*?))?\s*}}/gi, (_, format?: string) => now.format(format?.trim() || 'HH:mm'))
+			.replace(/{{\s*title\s*}}/gi, title);
+	}
+
+	// Helper function to ensure a folder exists
+	async ensureFolderExists(folderPath: string): Promise<void> {
+		if (this.syncPreview) return; // Folders are created when the previewed changes are applied
+		try {
+			const folder = this.app.vault.getAbstractFileByPath(folderPath);
+			if (!folder) {
+				await this.app.vault.createFolder(folderPath);
+				console.log(`Created folder: ${folderPath}`);
+			} else if (!(folder instanceof TFolder)) {
+                new Notice(`Error: ${folderPath} exists but is a file, not a folder.`);
                 throw new Error(`${folderPath} exists but is a file, not a folder.`);
             }
 		} catch (error) {
@@ -653,11 +3056,660 @@ export default class BookrisePlugin extends Plugin {
                         console.warn('BookRise chat view was registered but no leaf was found to reveal.');
                 }
         }
+
+	// Reveal the dashboard, opening it in the right sidebar unless it is already open
+	async activateDashboardView() {
+		const existing = this.app.workspace.getLeavesOfType(BOOKRISE_DASHBOARD_VIEW_TYPE);
+		if (existing.length > 0) {
+			this.app.workspace.revealLeaf(existing[0]);
+			return;
+		}
+
+		const rightLeaf = this.app.workspace.getRightLeaf(false);
+		if (!rightLeaf) {
+			console.warn('No right workspace leaf available for BookRise dashboard view.');
+			return;
+		}
+		await rightLeaf.setViewState({
+			type: BOOKRISE_DASHBOARD_VIEW_TYPE,
+			active: true,
+		});
+		this.app.workspace.revealLeaf(rightLeaf);
+	}
+
+	// Open the review in a main-area tab, reusing an open one
+	async activateReviewView() {
+		const existing = this.app.workspace.getLeavesOfType(BOOKRISE_REVIEW_VIEW_TYPE);
+		const leaf = existing[0] ?? this.app.workspace.getLeaf('tab');
+		if (existing.length === 0) {
+			await leaf.setViewState({ type: BOOKRISE_REVIEW_VIEW_TYPE, active: true });
+		}
+		this.app.workspace.revealLeaf(leaf);
+	}
+
+	// Review cards for every highlight synced by the active profile: `BookRiseHighlight`-tagged
+	// highlight notes, and the `^blockId` list items of book notes in single-file mode
+	async collectReviewCards(): Promise<ReviewCard[]> {
+		const cards: ReviewCard[] = [];
+		const syncedBlockIds = new Set(Object.keys(this.activeSyncState.state.highlights).map(id => id.substring(0, 8)));
+
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			const cache = this.app.metadataCache.getFileCache(file);
+			const frontmatter = cache?.frontmatter;
+			if (!frontmatter || frontmatter.deleted || this.getProfileOfNote(frontmatter) !== this.activeProfile) continue;
+
+			if (frontmatter.highlight_id && parseFrontMatterTags(frontmatter)?.includes('#BookRiseHighlight')) {
+				const { body } = splitFrontmatter(await this.app.vault.cachedRead(file));
+				const myNotesIndex = body.indexOf(MY_NOTES_HEADING);
+				const markdown = (myNotesIndex === -1 ? body : body.substring(0, myNotesIndex)).trim();
+				if (!markdown) continue;
+				cards.push({
+					key: String(frontmatter.highlight_id).substring(0, 8),
+					markdown,
+					sourcePath: file.path,
+					linktext: file.path,
+					bookTitle: String(frontmatter.book ?? '').replace(/^\[\[|\]\]$/g, '') || file.basename,
+				});
+			} else if (isSyncedBookNote(frontmatter) && cache?.blocks) {
+				const content = await this.app.vault.cachedRead(file);
+				for (const block of Object.values(cache.blocks)) {
+					if (!syncedBlockIds.has(block.id)) continue; // A block of the user's own
+					const markdown = content
+						.substring(block.position.start.offset, block.position.end.offset)
+						.replace(/^- /, '')
+						.replace(/ #hlcolor\/\S+/g, '')
+						.replace(/\s\^[A-Za-z0-9-]+\s*$/m, '')
+						.trim();
+					if (!markdown) continue;
+					cards.push({
+						key: block.id,
+						markdown,
+						sourcePath: file.path,
+						linktext: `${file.path}#^${block.id}`,
+						bookTitle: String(frontmatter.title ?? file.basename),
+					});
+				}
+			}
+		}
+		return cards;
+	}
+
+	refreshDashboardViews() {
+		for (const leaf of this.app.workspace.getLeavesOfType(BOOKRISE_DASHBOARD_VIEW_TYPE)) {
+			if (leaf.view instanceof BookriseDashboardView) {
+				leaf.view.refresh();
+			}
+		}
+	}
+}
+
+// Book notes written by the sync or an import, as opposed to highlight and chat notes
+function isSyncedBookNote(frontmatter: Record<string, unknown>): boolean {
+	return Boolean(frontmatter.id) && (frontmatter.source === 'BookRise' || isImportedId(String(frontmatter.id)));
+}
+
+// Short one-line label for a highlight, used in pickers and chips
+function describeHighlight(hl: Highlight, maxLength: number): string {
+	const text = (hl.text_content || hl.note || 'Highlight').replace(/\s+/g, ' ').trim();
+	const label = text.length > maxLength ? `${text.substring(0, maxLength - 1)}…` : text;
+	return hl.page ? `${label} (p. ${hl.page})` : label;
+}
+
+// Fuzzy picker over a book's highlights
+class HighlightSuggestModal extends FuzzySuggestModal<Highlight> {
+	highlights: Highlight[];
+	onChoose: (hl: Highlight) => void;
+
+	constructor(app: App, highlights: Highlight[], onChoose: (hl: Highlight) => void) {
+		super(app);
+		this.highlights = highlights;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Search highlights to attach as context...");
+	}
+
+	getItems(): Highlight[] {
+		return this.highlights;
+	}
+
+	getItemText(hl: Highlight): string {
+		return describeHighlight(hl, 120);
+	}
+
+	onChooseItem(hl: Highlight): void {
+		this.onChoose(hl);
+	}
+}
+
+// Fuzzy picker over the library's books
+class BookSuggestModal extends FuzzySuggestModal<Book> {
+	books: Book[];
+	onChoose: (book: Book) => void;
+
+	constructor(app: App, books: Book[], onChoose: (book: Book) => void) {
+		super(app);
+		this.books = books;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Which book is this about?");
+	}
+
+	getItems(): Book[] {
+		return this.books;
+	}
+
+	getItemText(book: Book): string {
+		return book.author ? `${book.title} — ${book.author}` : book.title;
+	}
+
+	onChooseItem(book: Book): void {
+		this.onChoose(book);
+	}
+}
+
+class ProfileSuggestModal extends FuzzySuggestModal<BookriseProfile> {
+	profiles: BookriseProfile[];
+	onChoose: (profile: BookriseProfile) => void;
+
+	constructor(app: App, profiles: BookriseProfile[], onChoose: (profile: BookriseProfile) => void) {
+		super(app);
+		this.profiles = profiles;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Switch to which BookRise profile?");
+	}
+
+	getItems(): BookriseProfile[] {
+		return this.profiles;
+	}
+
+	getItemText(profile: BookriseProfile): string {
+		return profile.name;
+	}
+
+	onChooseItem(profile: BookriseProfile): void {
+		this.onChoose(profile);
+	}
+}
+
+// Dry-run results: every planned change with a checkbox, and a diff for modified notes
+class SyncPreviewModal extends Modal {
+	changes: PlannedChange[];
+	skippedBooks: Book[];
+	onApply: (selected: PlannedChange[]) => void;
+	selected: Set<PlannedChange>;
+
+	constructor(app: App, changes: PlannedChange[], skippedBooks: Book[], onApply: (selected: PlannedChange[]) => void) {
+		super(app);
+		this.changes = changes;
+		this.skippedBooks = skippedBooks;
+		this.onApply = onApply;
+		this.selected = new Set(changes);
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Preview BookRise sync' });
+		contentEl.createEl('p', {
+			text: this.changes.length > 0
+				? `A sync would make ${this.changes.length} changes. Uncheck the ones you don't want.`
+				: 'A sync would not change any notes.',
+		});
+		if (this.skippedBooks.length > 0) {
+			contentEl.createEl('p', {
+				text: `Not previewed, because highlights were edited in their notes: ${this.skippedBooks.map(book => book.title).join(', ')}. ` +
+					'Run a regular sync to send those edits to BookRise.',
+				cls: 'mod-warning',
+			});
+		}
+
+		const listEl = contentEl.createDiv({ cls: 'bookrise-sync-preview-list' });
+		listEl.style.maxHeight = '60vh';
+		listEl.style.overflowY = 'auto';
+		for (const change of this.changes) {
+			this.renderChange(listEl, change);
+		}
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Apply selected')
+				.onClick(() => this.apply(this.changes.filter(change => this.selected.has(change)))))
+			.addButton(button => button
+				.setButtonText('Apply all')
+				.setCta()
+				.setDisabled(this.changes.length === 0)
+				.onClick(() => this.apply(this.changes)))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	renderChange(listEl: HTMLElement, change: PlannedChange) {
+		const itemEl = listEl.createDiv({ cls: 'bookrise-sync-preview-item' });
+		itemEl.style.borderBottom = '1px solid var(--background-modifier-border)';
+		itemEl.style.padding = '4px 0';
+
+		const labelEl = itemEl.createEl('label');
+		labelEl.style.display = 'flex';
+		labelEl.style.gap = '6px';
+		const checkbox = labelEl.createEl('input', { type: 'checkbox' });
+		checkbox.checked = true;
+		checkbox.onchange = () => {
+			if (checkbox.checked) {
+				this.selected.add(change);
+			} else {
+				this.selected.delete(change);
+			}
+		};
+		labelEl.createSpan({ text: describePlannedChange(change) });
+
+		if (change.type === 'modify' || change.type === 'create') {
+			const detailsEl = itemEl.createEl('details');
+			detailsEl.createEl('summary', { text: change.type === 'modify' ? 'Show changes' : 'Show content' });
+			const diff: DiffLine[] = change.type === 'modify'
+				? collapseUnchanged(diffLines(change.before, change.content))
+				: change.content.split('\n').map(text => ({ type: 'add', text }));
+			const preEl = detailsEl.createEl('pre', { cls: 'bookrise-sync-preview-diff' });
+			preEl.style.fontSize = 'var(--font-ui-smaller)';
+			preEl.style.whiteSpace = 'pre-wrap';
+			for (const line of diff) {
+				const prefix = { same: '  ', add: '+ ', remove: '- ', skip: '  … ' }[line.type];
+				const lineEl = preEl.createDiv({ text: `${prefix}${line.text}` });
+				if (line.type === 'add') lineEl.style.color = 'var(--text-success)';
+				if (line.type === 'remove') lineEl.style.color = 'var(--text-error)';
+				if (line.type === 'skip') lineEl.style.color = 'var(--text-faint)';
+			}
+		}
+	}
+
+	apply(changes: PlannedChange[]) {
+		this.close();
+		this.onApply(changes);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// One-line summary of a previewed change
+function describePlannedChange(change: PlannedChange): string {
+	switch (change.type) {
+		case 'create':
+			return `Create ${change.path}`;
+		case 'modify':
+			return `Modify ${change.path}`;
+		case 'rename':
+			return `Rename ${change.path} → ${change.newPath}`;
+		case 'remove':
+			return `Remove ${change.path} (deleted in BookRise)`;
+	}
+}
+
+// Format and destination for "Export highlights"
+class ExportModal extends Modal {
+	onSubmit: (format: ExportFormat, destination: ExportDestination, useSyncFilters: boolean) => void;
+
+	constructor(app: App, onSubmit: (format: ExportFormat, destination: ExportDestination, useSyncFilters: boolean) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Export BookRise highlights' });
+
+		let format: ExportFormat = 'csv';
+		let destination: ExportDestination = 'vault';
+		let useSyncFilters = true;
+
+		new Setting(contentEl)
+			.setName('Format')
+			.setDesc('CSV and JSON contain every highlight; Anki is a tab-separated file for File > Import; BibTeX and CSL-JSON have one citation per book.')
+			.addDropdown(dropdown => dropdown
+				.addOptions(EXPORT_FORMAT_NAMES)
+				.setValue(format)
+				.onChange(value => {
+					format = value as ExportFormat;
+				}));
+
+		new Setting(contentEl)
+			.setName('Save to')
+			.addDropdown(dropdown => dropdown
+				.addOption('vault', 'Exports folder in the vault')
+				.addOption('download', 'File on this computer')
+				.setValue(destination)
+				.onChange(value => {
+					destination = value as ExportDestination;
+				}));
+
+		new Setting(contentEl)
+			.setName('Use sync filters')
+			.setDesc('Only export the books and highlight colors selected for syncing in the settings.')
+			.addToggle(toggle => toggle
+				.setValue(useSyncFilters)
+				.onChange(value => {
+					useSyncFilters = value;
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Export')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onSubmit(format, destination, useSyncFilters);
+				}))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// Pick a Kindle "My Clippings.txt" or Readwise CSV file to import
+class ImportModal extends Modal {
+	onImport: (content: string, format: ImportFormat) => void;
+
+	constructor(app: App, onImport: (content: string, format: ImportFormat) => void) {
+		super(app);
+		this.onImport = onImport;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Import highlights' });
+		contentEl.createEl('p', {
+			text: 'Choose "My Clippings.txt" from the documents folder of your Kindle, or a CSV export from Readwise. ' +
+				'Importing the same file again updates the notes it created.',
+		});
+
+		let format: ImportFormat = 'kindle';
+		let file: File | null = null;
+		let formatDropdown: DropdownComponent | null = null;
+
+		new Setting(contentEl)
+			.setName('Format')
+			.addDropdown(dropdown => {
+				formatDropdown = dropdown;
+				dropdown
+					.addOption('kindle', 'Kindle (My Clippings.txt)')
+					.addOption('readwise', 'Readwise (CSV)')
+					.setValue(format)
+					.onChange(value => {
+						format = value as ImportFormat;
+					});
+			});
+
+		const fileSetting = new Setting(contentEl).setName('File');
+		const fileInputEl = fileSetting.controlEl.createEl('input', { type: 'file', attr: { accept: '.txt,.csv' } });
+		fileInputEl.onchange = () => {
+			file = fileInputEl.files?.[0] ?? null;
+			// Readwise exports are CSV, Kindle clippings are plain text
+			if (file) {
+				format = file.name.toLowerCase().endsWith('.csv') ? 'readwise' : 'kindle';
+				formatDropdown?.setValue(format);
+			}
+		};
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Import')
+				.setCta()
+				.onClick(async () => {
+					if (!file) {
+						new Notice('Choose a file to import first.');
+						return;
+					}
+					const content = await file.text();
+					this.close();
+					this.onImport(content, format);
+				}))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// Optional page, color and note for a highlight created from a selection
+class CreateHighlightModal extends Modal {
+	text: string;
+	onSubmit: (fields: NewHighlightFields) => void;
+
+	constructor(app: App, text: string, onSubmit: (fields: NewHighlightFields) => void) {
+		super(app);
+		this.text = text;
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Create BookRise highlight' });
+		const previewEl = contentEl.createEl('blockquote', { text: this.text });
+		previewEl.style.maxHeight = '150px';
+		previewEl.style.overflowY = 'auto';
+
+		const fields: NewHighlightFields = {};
+		new Setting(contentEl)
+			.setName('Page')
+			.addText(text => text
+				.setPlaceholder('Optional')
+				.onChange(value => {
+					const page = parseInt(value, 10);
+					fields.page = isNaN(page) ? undefined : page;
+				}));
+
+		new Setting(contentEl)
+			.setName('Color')
+			.addDropdown(dropdown => dropdown
+				.addOption('', 'None')
+				.addOptions({ yellow: 'Yellow', green: 'Green', blue: 'Blue', pink: 'Pink', purple: 'Purple', orange: 'Orange' })
+				.onChange(value => {
+					fields.color = value || undefined;
+				}));
+
+		new Setting(contentEl)
+			.setName('Note')
+			.addTextArea(text => text
+				.setPlaceholder('Optional')
+				.onChange(value => {
+					fields.note = value.trim() || undefined;
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Create')
+				.setCta()
+				.onClick(() => {
+					this.close();
+					this.onSubmit(fields);
+				}))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// Shown when a highlight's note or color was edited both in the vault and in BookRise
+class HighlightConflictModal extends Modal {
+	highlight: Highlight;
+	local: HighlightFields;
+	remote: HighlightFields;
+	onChoose: (choice: ConflictChoice) => void;
+	choice: ConflictChoice = 'skip'; // Closing the modal decides nothing
+
+	constructor(app: App, highlight: Highlight, local: HighlightFields, remote: HighlightFields, onChoose: (choice: ConflictChoice) => void) {
+		super(app);
+		this.highlight = highlight;
+		this.local = local;
+		this.remote = remote;
+		this.onChoose = onChoose;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Highlight changed in both places' });
+		contentEl.createEl('p', {
+			text: 'This highlight was edited in your vault and in BookRise since the last sync. Which version should be kept?',
+		});
+		contentEl.createEl('blockquote', { text: shortHighlightText(this.highlight) });
+
+		this.renderVersion('In your vault', this.local);
+		this.renderVersion('In BookRise', this.remote);
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Keep mine')
+				.setCta()
+				.onClick(() => this.choose('local')))
+			.addButton(button => button
+				.setButtonText('Use BookRise')
+				.onClick(() => this.choose('remote')))
+			.addButton(button => button
+				.setButtonText('Decide later')
+				.onClick(() => this.choose('skip')));
+	}
+
+	renderVersion(title: string, fields: HighlightFields) {
+		const versionEl = this.contentEl.createDiv();
+		versionEl.createEl('h4', { text: title });
+		versionEl.createEl('p', { text: `Color: ${fields.color || 'none'}` });
+		versionEl.createEl('p', { text: `Note: ${fields.note || '(none)'}` });
+	}
+
+	choose(choice: ConflictChoice) {
+		this.choice = choice;
+		this.close();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.onChoose(this.choice);
+	}
+}
+
+// Shown when BookRise rejects the API key, so it can be fixed without opening the settings
+class ApiKeyModal extends Modal {
+	plugin: BookrisePlugin;
+	profile: BookriseProfile; // Whose key was rejected
+	message: string;
+
+	constructor(app: App, plugin: BookrisePlugin, profile: BookriseProfile, message: string) {
+		super(app);
+		this.plugin = plugin;
+		this.profile = profile;
+		this.message = message;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		const title = this.plugin.settings.profiles.length > 1 ? `BookRise API key for ${this.profile.name}` : 'BookRise API key';
+		contentEl.createEl('h3', { text: title });
+		contentEl.createEl('p', { text: this.message });
+
+		let newKey = '';
+		new Setting(contentEl)
+			.setName('API key')
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text
+					.setPlaceholder('Enter your API key')
+					.onChange(value => {
+						newKey = value.trim();
+					});
+			});
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Save')
+				.setCta()
+				.onClick(async () => {
+					if (!newKey) {
+						new Notice('Please enter an API key.');
+						return;
+					}
+					this.profile.apiKey = newKey;
+					await this.plugin.saveSettings();
+					if (this.profile === this.plugin.activeProfile) this.plugin.updateClient();
+					new Notice('BookRise API key saved.');
+					this.close();
+				}))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+// New name for a profile; names must be unique, as notes record them
+class ProfileNameModal extends Modal {
+	plugin: BookrisePlugin;
+	profile: BookriseProfile;
+	onSave: (name: string) => void;
+
+	constructor(app: App, plugin: BookrisePlugin, profile: BookriseProfile, onSave: (name: string) => void) {
+		super(app);
+		this.plugin = plugin;
+		this.profile = profile;
+		this.onSave = onSave;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl('h3', { text: 'Rename BookRise profile' });
+		contentEl.createEl('p', { text: 'The notes of this profile are updated to the new name.' });
+
+		let name = this.profile.name;
+		new Setting(contentEl)
+			.setName('Name')
+			.addText(text => text
+				.setValue(name)
+				.onChange(value => {
+					name = value.trim();
+				}));
+
+		new Setting(contentEl)
+			.addButton(button => button
+				.setButtonText('Save')
+				.setCta()
+				.onClick(() => {
+					if (!name) {
+						new Notice('Please enter a name.');
+						return;
+					}
+					if (this.plugin.settings.profiles.some(other => other !== this.profile && other.name === name)) {
+						new Notice(`There already is a profile named "${name}".`);
+						return;
+					}
+					this.close();
+					if (name !== this.profile.name) this.onSave(name);
+				}))
+			.addButton(button => button
+				.setButtonText('Cancel')
+				.onClick(() => this.close()));
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
 }
 
 // Settings Tab Implementation
 class BookriseSettingTab extends PluginSettingTab {
 	plugin: BookrisePlugin;
+	books: Book[] | null = null; // Library for the book list, loaded once per settings session
+	connectionChecks = new Map<string, number>(); // Latest connection test per profile ID
 
 	constructor(app: App, plugin: BookrisePlugin) {
 		super(app, plugin);
@@ -671,27 +3723,7 @@ class BookriseSettingTab extends PluginSettingTab {
 
 		containerEl.createEl('h2', {text: 'BookRise Sync Settings'});
 
-		new Setting(containerEl)
-			.setName('BookRise API Key')
-			.setDesc('Enter your BookRise API key to sync highlights and use chat.')
-			.addText(text => text
-				.setPlaceholder('Enter your API key')
-				.setValue(this.plugin.settings.bookriseApiKey)
-				.onChange(async (value) => {
-					this.plugin.settings.bookriseApiKey = value;
-					await this.plugin.saveSettings();
-				}));
-        
-        new Setting(containerEl)
-            .setName('BookRise Sync Folder')
-            .setDesc('The folder where BookRise notes and highlights will be saved.')
-            .addText(text => text
-                .setPlaceholder('e.g., BookRise Notes')
-                .setValue(this.plugin.settings.bookriseSyncFolder)
-                .onChange(async (value) => {
-                    this.plugin.settings.bookriseSyncFolder = value || DEFAULT_SETTINGS.bookriseSyncFolder;
-                    await this.plugin.saveSettings();
-                }));
+		this.renderProfiles(containerEl);
 
 		// Add the new setting toggle
 		new Setting(containerEl)
@@ -702,6 +3734,435 @@ class BookriseSettingTab extends PluginSettingTab {
 				.onChange(async (value) => {
 					this.plugin.settings.createNotePerHighlight = value;
 					await this.plugin.saveSettings();
+					await this.plugin.invalidateSyncState(); // Layout changed, next sync rewrites every book
+				}));
+
+		new Setting(containerEl)
+			.setName('Send edits back to BookRise')
+			.setDesc('When syncing, push notes and highlight colors you edited in synced notes to BookRise. Only works with the built-in highlight layout.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.pushHighlightEdits)
+				.onChange(async (value) => {
+					this.plugin.settings.pushHighlightEdits = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Add new highlights to daily note')
+			.setDesc('After a sync, append the highlights that are new to today\'s daily note, grouped by book. Uses the folder and date format of the core Daily notes plugin.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.addNewHighlightsToDailyNote)
+				.onChange(async (value) => {
+					this.plugin.settings.addNewHighlightsToDailyNote = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Deleted in BookRise')
+			.setDesc('What to do with synced notes whose book or highlight was deleted in BookRise.')
+			.addDropdown(dropdown => dropdown
+				.addOption('mark', 'Mark with "deleted: true"')
+				.addOption('archive', 'Move to archive folder')
+				.addOption('delete', 'Move to trash')
+				.setValue(this.plugin.settings.deletionPolicy)
+				.onChange(async (value) => {
+					this.plugin.settings.deletionPolicy = value as DeletionPolicy;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Archive folder')
+			.setDesc('Where deleted books and highlights are moved when the archive option is selected.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.archiveFolder)
+				.setValue(this.plugin.settings.archiveFolder)
+				.onChange(async (value) => {
+					this.plugin.settings.archiveFolder = value || DEFAULT_SETTINGS.archiveFolder;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Sync on startup')
+			.setDesc('Sync highlights in the background when Obsidian starts.')
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.syncOnStartup)
+				.onChange(async (value) => {
+					this.plugin.settings.syncOnStartup = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName('Automatic sync interval')
+			.setDesc('Sync highlights in the background every N minutes. Set to 0 to disable.')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.autoSyncIntervalMinutes))
+				.onChange(async (value) => {
+					const minutes = parseInt(value, 10);
+					this.plugin.settings.autoSyncIntervalMinutes = isNaN(minutes) || minutes < 0 ? 0 : minutes;
+					await this.plugin.saveSettings();
+					this.plugin.scheduleAutoSync();
+				}));
+
+		containerEl.createEl('h3', {text: 'Book selection'});
+		containerEl.createEl('p', {
+			text: 'Choose which books and highlights are synced. Notes already synced for books that are left out are kept as they are.',
+			cls: 'setting-item-description',
+		});
+
+		this.addListSetting(containerEl, 'Only books tagged',
+			'Comma-separated BookRise tags. When set, only books with at least one of these tags are synced.', 'includeBookTags');
+		this.addListSetting(containerEl, 'Skip books tagged',
+			'Comma-separated BookRise tags. Books with any of these tags are not synced.', 'excludeBookTags');
+
+		new Setting(containerEl)
+			.setName('Percent read')
+			.setDesc('Only sync books whose reading progress is within this range (0 to 100).')
+			.addText(text => text
+				.setPlaceholder('0')
+				.setValue(String(this.plugin.settings.minPercentRead))
+				.onChange(async (value) => {
+					this.plugin.settings.minPercentRead = parsePercent(value, 0);
+					await this.plugin.saveSettings();
+					await this.plugin.invalidateSyncState();
+				}))
+			.addText(text => text
+				.setPlaceholder('100')
+				.setValue(String(this.plugin.settings.maxPercentRead))
+				.onChange(async (value) => {
+					this.plugin.settings.maxPercentRead = parsePercent(value, 100);
+					await this.plugin.saveSettings();
+					await this.plugin.invalidateSyncState();
+				}));
+
+		this.addListSetting(containerEl, 'Skip highlight colors',
+			'Comma-separated colors, e.g. "pink, blue". Highlights with these colors are not synced.', 'excludedHighlightColors');
+
+		this.renderBookList(containerEl.createDiv({ cls: 'bookrise-settings-book-list' }));
+
+		containerEl.createEl('h3', {text: 'Templates'});
+		containerEl.createEl('p', {
+			text: 'Templates use {{variables}}, {{#if field}}...{{else}}...{{/if}} and {{#each highlights}}...{{/each}}. ' +
+				'Highlight variables: text, note, page, location, color, created_at, updated_at, id, short_id, block_id, short_text. ' +
+				'Book variables: title, author, isbn, tags, percent_read, highlight_count, and highlights (each with content and link). ' +
+				'Enter the template itself or the path of a vault note that contains it. Leave empty for the built-in layout.',
+			cls: 'setting-item-description',
+		});
+
+		new Setting(containerEl)
+			.setName('Book note template')
+			.setDesc('Everything below the frontmatter of the book note.')
+			.addTextArea(text => text
+				.setPlaceholder('# {{title}}\n\n{{#each highlights}}{{content}}{{/each}}')
+				.setValue(this.plugin.settings.bookNoteTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.bookNoteTemplate = value;
+					await this.plugin.saveSettings();
+					await this.plugin.invalidateSyncState();
+				}));
+
+		new Setting(containerEl)
+			.setName('Highlight template')
+			.setDesc('Each highlight in the book note, or the body of each highlight note. Include ^{{block_id}} to keep block links working.')
+			.addTextArea(text => text
+				.setPlaceholder('> {{text}} ^{{block_id}}\n{{#if note}}\n{{note}}\n{{/if}}\n')
+				.setValue(this.plugin.settings.highlightTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.highlightTemplate = value;
+					await this.plugin.saveSettings();
+					await this.plugin.invalidateSyncState();
+				}));
+
+		new Setting(containerEl)
+			.setName('Highlight file name template')
+			.setDesc('File name of individual highlight notes, without the .md extension.')
+			.addText(text => text
+				.setPlaceholder(DEFAULT_SETTINGS.highlightFileNameTemplate)
+				.setValue(this.plugin.settings.highlightFileNameTemplate)
+				.onChange(async (value) => {
+					this.plugin.settings.highlightFileNameTemplate = value;
+					await this.plugin.saveSettings();
+					await this.plugin.invalidateSyncState();
+				}));
+
+		containerEl.createEl('h3', {text: 'Note properties'});
+		containerEl.createEl('p', {
+			text: 'Names of the frontmatter properties of synced notes, e.g. to match your Dataview queries. ' +
+				`Leave empty for the default name, or enter ${OMITTED_PROPERTY} to leave the property out. ` +
+				'Properties you add to synced notes yourself are kept.',
+			cls: 'setting-item-description',
+		});
+
+		for (const property of RENAMEABLE_PROPERTIES) {
+			const setting = new Setting(containerEl)
+				.setName(property)
+				.addText(text => text
+					.setPlaceholder(property)
+					.setValue(this.plugin.settings.propertyNames[property] ?? '')
+					.onChange(async (value) => {
+						const error = checkPropertyName(property, value, this.plugin.settings.propertyNames, RESERVED_PROPERTY_NAMES);
+						errorEl.setText(error ?? '');
+						if (error) return; // The previous name stays in use
+
+						// Replaced rather than mutated, as it may still be the default settings' object
+						const propertyNames = { ...this.plugin.settings.propertyNames };
+						if (value.trim()) {
+							propertyNames[property] = value.trim();
+						} else {
+							delete propertyNames[property];
+						}
+						this.plugin.settings.propertyNames = propertyNames;
+						await this.plugin.saveSettings();
+						await this.plugin.invalidateSyncState(); // Next sync rewrites every note's frontmatter
+					}));
+			const errorEl = setting.descEl.createDiv();
+			errorEl.style.color = 'var(--text-error)';
+		}
+	}
+
+	// Each profile's BookRise instance, API key and sync folder. Only the active profile's
+	// books are listed further down.
+	renderProfiles(containerEl: HTMLElement) {
+		const { profiles } = this.plugin.settings;
+		if (profiles.length > 1) {
+			new Setting(containerEl)
+				.setName('Active profile')
+				.setDesc('Used for chat, exports and the other commands. Syncing covers every profile with an API key.')
+				.addDropdown(dropdown => {
+					for (const profile of profiles) dropdown.addOption(profile.id, profile.name);
+					dropdown
+						.setValue(this.plugin.activeProfile.id)
+						.onChange(async (value) => {
+							await this.plugin.switchProfile(value);
+							this.books = null; // The book list is the active profile's library
+							this.display();
+						});
+				});
+		}
+
+		for (const profile of profiles) {
+			// Checked once typing in the URL or key field pauses
+			const checkConnection = debounce(() => {
+				if (profile === this.plugin.activeProfile) this.plugin.updateClient();
+				this.showConnectionStatus(profile, statusEl);
+			}, 1000, true);
+
+			if (profiles.length > 1) {
+				new Setting(containerEl)
+					.setName(profile.name)
+					.setHeading()
+					.addExtraButton(button => button
+						.setIcon('pencil')
+						.setTooltip('Rename profile')
+						.onClick(() => {
+							new ProfileNameModal(this.app, this.plugin, profile, async (name) => {
+								await this.plugin.renameProfile(profile, name);
+								this.display();
+							}).open();
+						}))
+					.addExtraButton(button => button
+						.setIcon('trash')
+						.setTooltip('Remove profile; its notes stay in the vault')
+						.onClick(async () => {
+							await this.plugin.removeProfile(profile);
+							this.books = null;
+							this.display();
+						}));
+			}
+
+			new Setting(containerEl)
+				.setName('BookRise URL')
+				.setDesc('Address of the BookRise instance, e.g. a staging server. After a change the next sync starts over; notes synced from the previous instance are kept but no longer updated.')
+				.addText(text => text
+					.setPlaceholder(DEFAULT_BASE_URL)
+					.setValue(profile.baseUrl === DEFAULT_BASE_URL ? '' : profile.baseUrl)
+					.onChange(async (value) => {
+						profile.baseUrl = value.trim() || DEFAULT_BASE_URL;
+						await this.plugin.saveSettings();
+						checkConnection();
+					}));
+
+			const keyDesc = this.plugin.canStoreApiKeysLocally()
+				? 'Enter your BookRise API key to sync highlights and use chat. It is stored on this device only, not in the vault.'
+				: 'Enter your BookRise API key to sync highlights and use chat.';
+			const keySetting = new Setting(containerEl)
+				.setName('BookRise API Key')
+				.setDesc(keyDesc)
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text
+						.setPlaceholder('Enter your API key')
+						.setValue(profile.apiKey)
+						.onChange(async (value) => {
+							profile.apiKey = value.trim();
+							await this.plugin.saveSettings();
+							checkConnection();
+						});
+				})
+				.addButton(button => button
+					.setButtonText('Test connection')
+					.onClick(() => {
+						checkConnection.cancel();
+						if (profile === this.plugin.activeProfile) this.plugin.updateClient();
+						this.showConnectionStatus(profile, statusEl);
+					}));
+			const statusEl = keySetting.descEl.createDiv();
+
+			new Setting(containerEl)
+				.setName('BookRise Sync Folder')
+				.setDesc('The folder where BookRise notes and highlights will be saved.')
+				.addText(text => text
+					.setPlaceholder('e.g., BookRise Notes')
+					.setValue(profile.syncFolder)
+					.onChange(async (value) => {
+						profile.syncFolder = value || DEFAULT_PROFILE.syncFolder;
+						await this.plugin.saveSettings();
+						await this.plugin.invalidateSyncState(profile); // Notes must be rewritten in the new folder
+					}));
+		}
+
+		new Setting(containerEl)
+			.setDesc('Profiles sync other BookRise accounts or instances, each into its own folder.')
+			.addButton(button => button
+				.setButtonText('Add profile')
+				.onClick(async () => {
+					await this.plugin.addProfile();
+					this.display();
+				}));
+	}
+
+	// Account, library size and reachability of a profile's BookRise instance. Only the
+	// latest check per profile is shown, in case an earlier one answers late.
+	async showConnectionStatus(profile: BookriseProfile, statusEl: HTMLElement) {
+		const checkId = (this.connectionChecks.get(profile.id) ?? 0) + 1;
+		this.connectionChecks.set(profile.id, checkId);
+		const show = (text: string, color: string) => {
+			if (this.connectionChecks.get(profile.id) !== checkId) return;
+			statusEl.setText(text);
+			statusEl.style.color = color;
+		};
+
+		if (!profile.apiKey) {
+			show('', '');
+			return;
+		}
+		let host: string;
+		try {
+			host = new URL(profile.baseUrl).host;
+		} catch (error) {
+			show(`"${profile.baseUrl}" is not a valid URL.`, 'var(--text-error)');
+			return;
+		}
+
+		show(`Connecting to ${host}...`, 'var(--text-muted)');
+		try {
+			const { account, bookCount } = await this.plugin.testConnection(profile);
+			const accountName = account?.name || account?.email || account?.id;
+			const connected = accountName ? `Connected to ${host} as ${accountName}.` : `Connected to ${host}.`;
+			show(`${connected} ${bookCount} books in the library.`, 'var(--text-success)');
+		} catch (error) {
+			console.error(`BookRise connection test for ${profile.name} failed:`, error);
+			show(`Could not connect to ${host}. ${describeBookriseError(error)}`, 'var(--text-error)');
+		}
+	}
+
+	// A comma-separated text setting stored as a list
+	addListSetting(containerEl: HTMLElement, name: string, desc: string, key: 'includeBookTags' | 'excludeBookTags' | 'excludedHighlightColors') {
+		new Setting(containerEl)
+			.setName(name)
+			.setDesc(desc)
+			.addText(text => text
+				.setValue(this.plugin.settings[key].join(', '))
+				.onChange(async (value) => {
+					this.plugin.settings[key] = parseListSetting(value);
+					await this.plugin.saveSettings();
+					await this.plugin.invalidateSyncState(); // Next sync applies the new selection to every book
 				}));
 	}
+
+	// Searchable checklist of the library, with each book's folder and layout overrides
+	async renderBookList(containerEl: HTMLElement) {
+		const client = this.plugin.client;
+		if (!client) {
+			containerEl.createEl('p', { text: 'Set your API key to choose individual books.', cls: 'setting-item-description' });
+			return;
+		}
+		if (!this.books) {
+			const loadingEl = containerEl.createEl('p', { text: 'Loading your BookRise library...', cls: 'setting-item-description' });
+			try {
+				this.books = await client.listBooks();
+			} catch (error) {
+				console.error('Error loading books for the settings:', error);
+				loadingEl.setText(`Could not load your books. ${describeBookriseError(error)}`);
+				return;
+			}
+			loadingEl.remove();
+		}
+
+		const rows: { book: Book; settingEl: HTMLElement }[] = [];
+		new Setting(containerEl)
+			.setName('Books')
+			.setDesc('Unchecked books are not synced. A book can also get its own note layout and folder; leave them empty to use the settings above.')
+			.addSearch(search => search
+				.setPlaceholder('Filter books')
+				.onChange(value => {
+					const query = value.trim().toLowerCase();
+					for (const row of rows) {
+						const matches = `${row.book.title} ${row.book.author ?? ''}`.toLowerCase().includes(query);
+						row.settingEl.style.display = matches ? '' : 'none';
+					}
+				}));
+
+		for (const book of this.books) {
+			const override = this.plugin.settings.bookOverrides[book.id] ?? {};
+			const setting = new Setting(containerEl)
+				.setName(book.title)
+				.setDesc(book.author ?? '')
+				.addToggle(toggle => toggle
+					.setTooltip('Sync this book')
+					.setValue(!this.plugin.settings.excludedBookIds.includes(book.id))
+					.onChange(async (value) => {
+						const excluded = this.plugin.settings.excludedBookIds.filter(id => id !== book.id);
+						this.plugin.settings.excludedBookIds = value ? excluded : [...excluded, book.id];
+						await this.plugin.saveSettings();
+						// Skipped books keep their notes; one synced again has to be fetched in full
+						if (value) await this.plugin.invalidateSyncState();
+					}))
+				.addDropdown(dropdown => dropdown
+					.addOption('', 'Default layout')
+					.addOption('single-file', 'Single file')
+					.addOption('per-highlight', 'Note per highlight')
+					.setValue(override.mode ?? '')
+					.onChange(async (value) => {
+						await this.updateBookOverride(book.id, { mode: (value || undefined) as BookSyncOverride['mode'] });
+					}))
+				.addText(text => text
+					.setPlaceholder(this.plugin.activeProfile.syncFolder)
+					.setValue(override.folder ?? '')
+					.onChange(async (value) => {
+						await this.updateBookOverride(book.id, { folder: value.trim() || undefined });
+					}));
+			rows.push({ book, settingEl: setting.settingEl });
+		}
+	}
+
+	async updateBookOverride(bookId: string, changes: BookSyncOverride) {
+		// Replaced rather than mutated, as it may still be the default settings' object
+		const overrides = { ...this.plugin.settings.bookOverrides };
+		const override = { ...overrides[bookId], ...changes };
+		if (override.folder || override.mode) {
+			overrides[bookId] = override;
+		} else {
+			delete overrides[bookId];
+		}
+		this.plugin.settings.bookOverrides = overrides;
+		await this.plugin.saveSettings();
+		await this.plugin.invalidateSyncState(); // Notes must be rewritten in the new folder or layout
+	}
+}
+
+// Percentage setting text, clamped to 0-100; invalid input gives the fallback
+function parsePercent(value: string, fallback: number): number {
+	const percent = parseFloat(value);
+	return isNaN(percent) ? fallback : Math.min(100, Math.max(0, percent));
 }
@@ -1,4 +1,13 @@
 import type { RequestUrlParam, RequestUrlResponse } from 'obsidian';
+import {
+  AuthError,
+  BookriseApiError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+} from './BookriseErrors';
+import { SseEvent, SseParser } from './SseParser';
 
 // Define interfaces for API data structures
 export interface Book {
@@ -9,6 +18,7 @@ export interface Book {
   tags?: string[];
   percent_read?: number;
   assistant_id?: string;
+  source?: string; // Only set on books imported from elsewhere, e.g. "Kindle"
   // Add other book properties as needed from the API response
 }
 
@@ -30,16 +40,228 @@ export interface ChatResponse {
   answer: string;
   cited_paragraph_ids: string[]; // Or however the citations are structured
   cited_chapters?: number[]; // Added to capture cited_chapters
+  aborted?: boolean; // Set when a streamed answer was stopped before it finished
+}
+
+// The account an API key belongs to
+export interface Account {
+  id: string;
+  name?: string;
+  email?: string;
+}
+
+// Reading progress of a book
+export interface ReadingProgress {
+  book_id: string;
+  percent_read: number;
+  current_page?: number;
+  total_pages?: number;
+  last_read_at?: string; // ISO timestamp
+}
+
+// A book waiting in the reading queue
+export interface ReadingQueueItem {
+  book_id: string;
+  position?: number; // 1-based place in the queue
+  added_at?: string; // ISO timestamp
+  book?: Book; // Included by the API when available
+}
+
+// Optional fields when creating a highlight
+export interface NewHighlightFields {
+  page?: number;
+  location?: string;
+  color?: string;
+  note?: string;
+}
+
+// Fields of an existing highlight that can be edited; null clears the field
+export interface HighlightUpdate {
+  note?: string | null;
+  color?: string | null;
+}
+
+// A previous turn of the conversation, sent so the model can follow up on it
+export interface ChatTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ChatOptions {
+  contextIds?: string[]; // Highlight IDs to use as extra context
+  history?: ChatTurn[]; // Earlier turns, oldest first, not including the prompt
+  onChunk?: (chunk: string) => void;
+  signal?: AbortSignal;
+}
+
+// Envelope of a paginated list response. Only one of the pagination styles is used.
+interface PaginatedResponse<T> {
+  items?: T[];
+  data?: T[];
+  results?: T[];
+  next_cursor?: string | null;
+  next?: string | null;
+  page?: number;
+  total_pages?: number;
+  has_more?: boolean;
 }
 
 // Define a type for the requestUrl function from Obsidian API so the client can
 // be provided with a mock during testing.
 export type RequestUrlFunc = (options: RequestUrlParam) => Promise<RequestUrlResponse>;
 
+export const DEFAULT_BASE_URL = "https://app.bookrise.io";
+
+export interface BookriseClientOptions {
+  baseUrl?: string; // BookRise instance to talk to, e.g. a staging server
+  maxRetries?: number; // Retries after the first attempt for retryable failures
+  baseDelayMs?: number; // First backoff delay, doubled on every retry
+  timeoutMs?: number; // Per-attempt timeout
+  fetchFn?: typeof fetch; // Streaming transport for chat; defaults to the global fetch
+}
+
+const DEFAULT_CLIENT_OPTIONS = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  timeoutMs: 30000,
+};
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+// Reject with an AbortError once `signal` fires, for transports like requestUrl that can't be cancelled
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      const error = new Error('The request was aborted.');
+      error.name = 'AbortError';
+      reject(error);
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// Longest we are willing to wait on a single Retry-After before giving up
+const MAX_RETRY_AFTER_MS = 60000;
+
 export class BookriseClient {
-  private baseUrl = "https://app.bookrise.io";
+  private baseUrl: string;
+  private options: typeof DEFAULT_CLIENT_OPTIONS;
+  private fetchFn: typeof fetch | undefined;
+
+  constructor(private token: string, private requestUrlFn: RequestUrlFunc, options: BookriseClientOptions = {}) {
+    const { fetchFn, baseUrl, ...rest } = options;
+    this.baseUrl = (baseUrl?.trim() || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    this.options = { ...DEFAULT_CLIENT_OPTIONS, ...rest };
+    this.fetchFn = fetchFn ?? (typeof fetch === 'function' ? fetch.bind(globalThis) : undefined);
+  }
+
+  // Send a request with timeout and retries. Network errors, 429 and 5xx are retried
+  // with exponential backoff (honoring Retry-After); POSTs are only retried on 429,
+  // since the server never processed those. Non-2xx responses become typed errors.
+  private async send(options: RequestUrlParam): Promise<RequestUrlResponse> {
+    const method = options.method || "GET";
+    let attempt = 0;
+
+    for (;;) {
+      let error: BookriseApiError;
+      try {
+        const response = await this.sendOnce({ ...options, method, throw: false });
+        if (response.status >= 200 && response.status < 300) {
+          return response;
+        }
+        error = this.errorFromResponse(response);
+      } catch (e) {
+        error = e instanceof BookriseApiError ? e : new NetworkError(`Request to ${options.url} failed: ${e instanceof Error ? e.message : e}`);
+      }
+
+      const retryable =
+        error instanceof RateLimitError ||
+        (method === "GET" && (error instanceof NetworkError || error instanceof ServerError));
+      if (!retryable || attempt >= this.options.maxRetries) {
+        throw error;
+      }
+
+      let delay = this.options.baseDelayMs * Math.pow(2, attempt) + Math.random() * this.options.baseDelayMs;
+      if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+        if (error.retryAfterMs > MAX_RETRY_AFTER_MS) {
+          throw error;
+        }
+        delay = Math.max(delay, error.retryAfterMs);
+      }
+      attempt++;
+      console.warn(`BookRise request ${method} ${options.url} failed (${error.name}), retry ${attempt}/${this.options.maxRetries} in ${Math.round(delay)}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
 
-  constructor(private token: string, private requestUrlFn: RequestUrlFunc) {}
+  private sendOnce(options: RequestUrlParam): Promise<RequestUrlResponse> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new NetworkError(`Request to ${options.url} timed out after ${this.options.timeoutMs}ms`));
+      }, this.options.timeoutMs);
+      this.requestUrlFn(options).then(
+        response => {
+          clearTimeout(timer);
+          resolve(response);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private errorFromResponse(response: Pick<RequestUrlResponse, "status" | "text" | "headers">): BookriseApiError {
+    // Attempt to parse error from response.text if available, or use a generic message
+    let errorBody = response.text;
+    try {
+      const parsedError = JSON.parse(response.text);
+      errorBody = parsedError.detail || response.text; // Example: FastAPI error format
+    } catch (e) {
+      // Not JSON or different error structure
+    }
+    console.error(`API Error: ${response.status}`, errorBody);
+    const message = `Error calling BookRise API: Status ${response.status} - ${errorBody}`;
+
+    if (response.status === 401 || response.status === 403) {
+      return new AuthError(message, response.status);
+    }
+    if (response.status === 404) {
+      return new NotFoundError(message);
+    }
+    if (response.status === 429) {
+      return new RateLimitError(message, this.parseRetryAfter(response.headers));
+    }
+    if (response.status >= 500) {
+      return new ServerError(message, response.status);
+    }
+    return new BookriseApiError(message, response.status);
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private parseRetryAfter(headers: Record<string, string> | undefined): number | undefined {
+    const header = Object.entries(headers || {}).find(([name]) => name.toLowerCase() === "retry-after")?.[1];
+    if (!header) {
+      return undefined;
+    }
+    const seconds = Number(header);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(header);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
 
   private async request<T>(
     endpoint: string,
@@ -58,30 +280,14 @@ export class BookriseClient {
     };
 
     console.log(`Requesting: ${requestOptions.method} ${url}`);
-    // Use the passed-in requestUrlFn
-    const response = await this.requestUrlFn(requestOptions);
+    // Throws a typed BookriseApiError on non-2xx statuses
+    const response = await this.send(requestOptions);
 
     // Log raw response for specific endpoints if needed for debugging
     if (endpoint === "/books") {
       console.log("Raw /books API response text:", response.text);
     }
 
-    // requestUrl typically throws on non-2xx status codes, but we can double-check
-    // However, the structure of requestUrl's response is { status, text, json, etc. }
-    // The `text` field contains the raw response body for parsing.
-    if (response.status < 200 || response.status >= 300) {
-        // Attempt to parse error from response.text if available, or use a generic message
-        let errorBody = response.text;
-        try {
-            const parsedError = JSON.parse(response.text);
-            errorBody = parsedError.detail || response.text; // Example: FastAPI error format
-        } catch (e) {
-            // Not JSON or different error structure
-        }
-        console.error(`API Error: ${response.status}`, errorBody);
-        throw new Error(`Error calling BookRise API: Status ${response.status} - ${errorBody}`);
-    }
-
     const responseText = response.text;
     if (!responseText && response.status !== 204) { // Allow empty response for 204 No Content
         console.warn(`Empty response for status ${response.status} from ${url}`);
@@ -94,23 +300,102 @@ export class BookriseClient {
     return JSON.parse(responseText) as T;
   }
 
+  // Follow the API's pagination and yield one page of items at a time.
+  // A plain array response is a complete, unpaginated result. A paginated response
+  // is an envelope with the items plus `next_cursor`, a `next` URL, or
+  // `page`/`has_more`/`total_pages`.
+  private async *paginate<T>(endpoint: string): AsyncGenerator<T[]> {
+    const separator = endpoint.includes("?") ? "&" : "?";
+    let nextEndpoint: string | null = endpoint;
+    const seenEndpoints = new Set<string>();
+
+    while (nextEndpoint) {
+      if (seenEndpoints.has(nextEndpoint)) {
+        console.warn(`BookRise pagination loop detected at ${nextEndpoint}, stopping.`);
+        return;
+      }
+      seenEndpoints.add(nextEndpoint);
+
+      const response: T[] | PaginatedResponse<T> | null = await this.request<T[] | PaginatedResponse<T>>(nextEndpoint);
+      if (!response) {
+        // Not an empty list: callers would take every item as deleted
+        throw new BookriseApiError(`BookRise sent an empty response for ${nextEndpoint}.`);
+      }
+      if (Array.isArray(response)) {
+        yield response;
+        return;
+      }
+
+      const items: T[] = response.items ?? response.data ?? response.results ?? [];
+      if (items.length > 0) {
+        yield items;
+      }
+      nextEndpoint = this.nextPageEndpoint(endpoint, separator, response, items.length);
+    }
+  }
+
+  private nextPageEndpoint<T>(endpoint: string, separator: string, response: PaginatedResponse<T>, itemCount: number): string | null {
+    if (response.next_cursor) {
+      return `${endpoint}${separator}cursor=${encodeURIComponent(response.next_cursor)}`;
+    }
+    if (response.next) {
+      if (response.next.startsWith(this.baseUrl)) {
+        return response.next.slice(this.baseUrl.length);
+      }
+      if (response.next.startsWith("/")) {
+        return response.next;
+      }
+      console.warn(`Ignoring BookRise next page on another host: ${response.next}`);
+      return null;
+    }
+    if (typeof response.page === "number" && itemCount > 0) {
+      const hasMore = response.has_more ?? (response.total_pages !== undefined && response.page < response.total_pages);
+      if (hasMore) {
+        return `${endpoint}${separator}page=${response.page + 1}`;
+      }
+    }
+    return null;
+  }
+
+  private async collectPages<T>(pages: AsyncGenerator<T[]>): Promise<T[]> {
+    const all: T[] = [];
+    for await (const page of pages) {
+      all.push(...page);
+    }
+    return all;
+  }
+
   async listBooks(): Promise<Book[]> {
-    return this.request<Book[]>("/api/books");
+    return this.collectPages(this.iterateBooks());
+  }
+
+  iterateBooks(): AsyncGenerator<Book[]> {
+    return this.paginate<Book>("/api/books");
   }
 
   async listHighlights(bookId: string): Promise<Highlight[]> {
+    return this.collectPages(this.iterateHighlights(bookId));
+  }
+
+  // Highlights of a book, one page at a time, for callers that don't need them all in memory
+  iterateHighlights(bookId: string): AsyncGenerator<Highlight[]> {
     if (!bookId) {
       throw new Error("bookId is required to list highlights.");
     }
-    return this.request<Highlight[]>(`/api/highlights?book_id=${bookId}`);
+    return this.paginate<Highlight>(`/api/highlights?book_id=${bookId}`);
   }
 
-  // GET /highlights/{id} is also mentioned in the notes, could be added if needed
-  // async getHighlightDetails(highlightId: string): Promise<Highlight> {
-  //   return this.request<Highlight>(`/highlights/${highlightId}`);
-  // }
+  async getHighlight(highlightId: string): Promise<Highlight> {
+    if (!highlightId) {
+      throw new Error("highlightId is required to get a highlight.");
+    }
+    return this.request<Highlight>(`/api/highlights/${encodeURIComponent(highlightId)}`);
+  }
 
-  async chat(bookId: string, prompt: string, contextIds?: string[], onChunk?: (chunk: string) => void): Promise<ChatResponse> {
+  // With onChunk, the answer is streamed and delivered chunk by chunk as it arrives.
+  // Aborting the signal stops the stream; the partial answer is returned with `aborted` set.
+  async chat(bookId: string, prompt: string, options: ChatOptions = {}): Promise<ChatResponse> {
+    const { contextIds, history, onChunk, signal } = options;
     if (!bookId || !prompt) {
       throw new Error("bookId and prompt are required for chat.");
     }
@@ -120,7 +405,7 @@ export class BookriseClient {
     const book = books.find(b => b.id === bookId);
     
     if (!book) {
-      throw new Error(`Book with ID ${bookId} not found`);
+      throw new NotFoundError(`Book with ID ${bookId} not found`);
     }
 
     // Use the correct endpoint without /api prefix
@@ -132,86 +417,13 @@ export class BookriseClient {
       const body = {
         book_id: bookId,
         message: prompt,
-        context_ids: contextIds || []
+        context_ids: contextIds || [],
+        history: history || [],
       };
 
       // If we have an onChunk callback, use streaming
       if (onChunk) {
-        const response = await this.requestUrlFn({
-          url: `${this.baseUrl}${endpoint}`,
-          method: 'POST',
-          headers: {
-            Authorization: `Bearer ${this.token}`,
-            'Content-Type': 'application/json',
-            Accept: 'text/event-stream',
-          },
-          body: JSON.stringify(body),
-        });
-
-        if (response.status < 200 || response.status >= 300) {
-          const errorText = response.text ?? '';
-          throw new Error(`Chat API error: ${response.status} - ${errorText}`);
-        }
-
-        const streamPayload = response.text ?? '';
-        if (!streamPayload) {
-          throw new Error('Received empty response from chat API stream');
-        }
-
-        let fullAnswer = '';
-        const citedChapters = new Set<number>();
-
-        const emitChunk = (chunk: string) => {
-          if (!chunk) {
-            return;
-          }
-          fullAnswer += chunk;
-          onChunk(chunk);
-        };
-
-        const lines = streamPayload.split(/\r?\n/);
-        for (const rawLine of lines) {
-          const line = rawLine.trim();
-          if (!line.startsWith('data:')) {
-            continue;
-          }
-
-          const data = line.slice(5).trim();
-          if (!data || data === '[DONE]') {
-            continue;
-          }
-
-          try {
-            const parsed = JSON.parse(data);
-            console.log('Parsed stream data chunk:', JSON.stringify(parsed));
-            if (parsed.content) {
-              emitChunk(parsed.content);
-            } else if (parsed.answer) {
-              emitChunk(parsed.answer);
-            } else if (parsed.delta) {
-              emitChunk(parsed.delta);
-            } else if (typeof parsed === 'string') {
-              emitChunk(parsed);
-            }
-
-            if (parsed.cited_chapters && Array.isArray(parsed.cited_chapters)) {
-              parsed.cited_chapters.forEach((chapter: number) => {
-                if (typeof chapter === 'number') {
-                  citedChapters.add(chapter);
-                }
-              });
-            }
-          } catch (e) {
-            console.warn('Failed to parse chat stream chunk:', e);
-            emitChunk(data);
-          }
-        }
-
-        return {
-          answer: fullAnswer,
-          cited_paragraph_ids: [],
-          cited_chapters: Array.from(citedChapters),
-        };
+        return await this.streamChat(endpoint, body, onChunk, signal);
       }
 
       // Non-streaming fallback
@@ -228,33 +440,218 @@ export class BookriseClient {
 
     } catch (error) {
       console.error(`Error with chat endpoint ${endpoint}:`, error);
+      if (error instanceof BookriseApiError) {
+        throw error; // Keep the type so callers can react to it
+      }
       throw new Error(`Failed to get chat response: ${error.message}`);
     }
   }
 
-  // Placeholder for GET /reading-queue (for feature #3)
-  // async getReadingQueue(): Promise<any> { // Replace 'any' with actual type
-  //   return this.request<any>("/reading-queue");
-  // }
-
-  // Placeholder for GET /progress (for feature #3)
-  // async getProgress(): Promise<any> { // Replace 'any' with actual type
-  //   return this.request<any>("/progress");
-  // }
-  
-  // Placeholder for GET /highlights?since= (for feature #4)
-  // async getRecentHighlights(sinceDate: string): Promise<Highlight[]> {
-  //   return this.request<Highlight[]>(`/highlights?since=${sinceDate}`);
-  // }
-
-  // Placeholder for POST /highlights (for feature #5)
-  // async createHighlight(bookId: string, text: string, page?: number, location?: string, color?: string): Promise<Highlight> {
-  //   const body = { book_id: bookId, text, page, location, color };
-  //   return this.request<Highlight>("/highlights", {
-  //     method: "POST",
-  //     body: JSON.stringify(body),
-  //   });
-  // }
+  // Stream a chat answer over fetch, parsing SSE events as they arrive. Falls back to the
+  // buffered requestUrl transport when fetch is unavailable or blocked (e.g. by CORS).
+  private async streamChat(
+    endpoint: string,
+    body: Record<string, unknown>,
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatResponse> {
+    const url = `${this.baseUrl}${endpoint}`;
+    const headers = {
+      Authorization: `Bearer ${this.token}`,
+      'Content-Type': 'application/json',
+      Accept: 'text/event-stream',
+    };
+
+    let fullAnswer = '';
+    let finished = false;
+    const citedChapters = new Set<number>();
+    const citedParagraphIds = new Set<string>();
+    const result = (aborted = false): ChatResponse => ({
+      answer: fullAnswer,
+      cited_paragraph_ids: Array.from(citedParagraphIds),
+      cited_chapters: Array.from(citedChapters),
+      aborted,
+    });
+
+    const emitChunk = (chunk: string) => {
+      if (!chunk) {
+        return;
+      }
+      fullAnswer += chunk;
+      onChunk(chunk);
+    };
+
+    const handleEvent = (event: SseEvent) => {
+      if (finished) {
+        return;
+      }
+      const data = event.data.trim();
+      if (data === '[DONE]' || event.event === 'done' || event.event === 'end') {
+        finished = true;
+        return;
+      }
+      if (event.event === 'error') {
+        throw new BookriseApiError(`Chat stream error: ${data}`);
+      }
+      if (!data) {
+        return;
+      }
+
+      let parsed;
+      try {
+        parsed = JSON.parse(data);
+      } catch (e) {
+        emitChunk(event.data); // Plain-text token, keep its whitespace
+        return;
+      }
+
+      if (typeof parsed === 'string') {
+        emitChunk(parsed);
+        return;
+      }
+      if (parsed.content) {
+        emitChunk(parsed.content);
+      } else if (parsed.answer) {
+        emitChunk(parsed.answer);
+      } else if (parsed.delta) {
+        emitChunk(parsed.delta);
+      }
+
+      if (Array.isArray(parsed.cited_chapters)) {
+        parsed.cited_chapters.forEach((chapter: unknown) => {
+          if (typeof chapter === 'number') {
+            citedChapters.add(chapter);
+          }
+        });
+      }
+      if (Array.isArray(parsed.cited_paragraph_ids)) {
+        parsed.cited_paragraph_ids.forEach((id: unknown) => citedParagraphIds.add(String(id)));
+      }
+    };
+
+    const parser = new SseParser();
+    const handleText = (text: string) => parser.feed(text).forEach(handleEvent);
+
+    let response: Response | null = null;
+    if (this.fetchFn) {
+      try {
+        response = await this.fetchFn(url, { method: 'POST', headers, body: JSON.stringify(body), signal });
+      } catch (error) {
+        if (isAbortError(error)) {
+          return result(true);
+        }
+        console.warn('Streaming chat request failed, falling back to a buffered request:', error);
+      }
+    }
+
+    // Checked before picking a transport, so an error without a body isn't parsed as an answer
+    if (response && !response.ok) {
+      const responseHeaders: Record<string, string> = {};
+      response.headers.forEach((value, name) => {
+        responseHeaders[name] = value;
+      });
+      throw this.errorFromResponse({ status: response.status, text: await response.text(), headers: responseHeaders });
+    }
+
+    if (!response || !response.body) {
+      // Buffered transport: the whole answer arrives at once
+      let buffered: string;
+      try {
+        buffered = response
+          ? await abortable(response.text(), signal)
+          : (await abortable(this.send({ url, method: 'POST', headers, body: JSON.stringify(body) }), signal)).text ?? '';
+      } catch (error) {
+        if (isAbortError(error)) {
+          return result(true);
+        }
+        throw error;
+      }
+      if (signal?.aborted) {
+        return result(true);
+      }
+      handleText(buffered);
+      parser.end().forEach(handleEvent);
+      return result();
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    try {
+      while (!finished) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        handleText(decoder.decode(value, { stream: true }));
+      }
+      if (finished) {
+        await reader.cancel(); // Server said it's done; don't wait for the connection to close
+      } else {
+        handleText(decoder.decode());
+        parser.end().forEach(handleEvent);
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        return result(true);
+      }
+      if (error instanceof BookriseApiError) {
+        throw error;
+      }
+      throw new NetworkError(`Chat stream interrupted: ${error instanceof Error ? error.message : error}`);
+    }
+
+    return result();
+  }
+
+  // Account of the API key, e.g. to confirm a newly entered key works
+  async getAccount(): Promise<Account> {
+    return this.request<Account>("/api/me");
+  }
+
+  // Books queued to be read next, in queue order
+  async getReadingQueue(): Promise<ReadingQueueItem[]> {
+    const items = await this.collectPages(this.paginate<ReadingQueueItem>("/api/reading-queue"));
+    return items.sort((a, b) => (a.position ?? Number.MAX_SAFE_INTEGER) - (b.position ?? Number.MAX_SAFE_INTEGER));
+  }
+
+  // Reading progress of every book that has been opened
+  async getProgress(): Promise<ReadingProgress[]> {
+    return this.collectPages(this.paginate<ReadingProgress>("/api/progress"));
+  }
+
+  // Highlights created or updated after the given ISO timestamp, across all books
+  async getRecentHighlights(sinceDate: string): Promise<Highlight[]> {
+    if (!sinceDate) {
+      throw new Error("sinceDate is required to list recent highlights.");
+    }
+    return this.collectPages(this.paginate<Highlight>(`/api/highlights?since=${encodeURIComponent(sinceDate)}`));
+  }
+
+  async createHighlight(bookId: string, text: string, fields: NewHighlightFields = {}): Promise<Highlight> {
+    if (!bookId || !text) {
+      throw new Error("bookId and text are required to create a highlight.");
+    }
+    const body = { book_id: bookId, text, ...fields };
+    const highlight = await this.request<Highlight>("/api/highlights", {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+    if (!highlight || !highlight.id) {
+      throw new BookriseApiError("BookRise did not return the created highlight.");
+    }
+    return highlight;
+  }
+
+  // Returns the updated highlight, or null when BookRise answers without a body
+  async updateHighlight(highlightId: string, fields: HighlightUpdate): Promise<Highlight | null> {
+    if (!highlightId) {
+      throw new Error("highlightId is required to update a highlight.");
+    }
+    return this.request<Highlight | null>(`/api/highlights/${encodeURIComponent(highlightId)}`, {
+      method: "PATCH",
+      body: JSON.stringify(fields),
+    });
+  }
 }
 
 // Example usage (for testing outside Obsidian):
@@ -0,0 +1,74 @@
+// Typed errors thrown by BookriseClient, so callers can react to the kind of
+// failure (fix the API key, wait, retry later) instead of parsing messages.
+
+export class BookriseApiError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = 'BookriseApiError';
+    // Keep `instanceof` working when compiled down to ES5-style classes
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+// 401/403: the API key is missing, invalid or revoked
+export class AuthError extends BookriseApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+// 404: the book, highlight or endpoint does not exist
+export class NotFoundError extends BookriseApiError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'NotFoundError';
+  }
+}
+
+// 429: too many requests; retryAfterMs comes from the Retry-After header when present
+export class RateLimitError extends BookriseApiError {
+  constructor(message: string, public retryAfterMs?: number) {
+    super(message, 429);
+    this.name = 'RateLimitError';
+  }
+}
+
+// 5xx: BookRise is having problems
+export class ServerError extends BookriseApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'ServerError';
+  }
+}
+
+// No usable response: offline, DNS failure, connection reset or timeout
+export class NetworkError extends BookriseApiError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Short, user-facing explanation of an error from the client
+export function describeBookriseError(error: unknown): string {
+  if (error instanceof AuthError) {
+    return 'BookRise rejected your API key. Please check it in the plugin settings.';
+  }
+  if (error instanceof RateLimitError) {
+    const seconds = error.retryAfterMs ? Math.ceil(error.retryAfterMs / 1000) : undefined;
+    return seconds
+      ? `BookRise is rate limiting requests. Try again in ${seconds} seconds.`
+      : 'BookRise is rate limiting requests. Try again in a moment.';
+  }
+  if (error instanceof NetworkError) {
+    return 'Could not reach BookRise. Check your internet connection.';
+  }
+  if (error instanceof ServerError) {
+    return 'BookRise is having problems right now. Try again later.';
+  }
+  if (error instanceof NotFoundError) {
+    return 'The requested item was not found in BookRise.';
+  }
+  return 'Something went wrong talking to BookRise. See console for details.';
+}
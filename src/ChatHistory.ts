@@ -0,0 +1,77 @@
+// Chat conversations are saved as Markdown notes, one callout per message, so they
+// read well in Obsidian and can be parsed back to continue the conversation.
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface ConversationMeta {
+  bookId: string;
+  bookTitle: string;
+  bookNoteName: string; // Book note to link back to
+  created: string; // ISO timestamp
+  profile?: string; // BookRise profile the conversation was held with
+}
+
+// Frontmatter `type` that marks a note as a BookRise chat
+export const CHAT_NOTE_TYPE = 'bookrise-chat';
+
+const ROLE_HEADERS: Record<ChatMessage['role'], string> = {
+  user: '> [!question] You',
+  assistant: '> [!note] BookRise AI',
+};
+
+function quote(content: string): string {
+  return content
+    .trim()
+    .split('\n')
+    .map(line => (line ? `> ${line}` : '>'))
+    .join('\n');
+}
+
+// A callout block, e.g. for inserting an answer into a note
+export function formatCallout(type: string, title: string, content: string): string {
+  return `> [!${type}] ${title}\n${quote(content)}\n`;
+}
+
+export function serializeConversation(meta: ConversationMeta, messages: ChatMessage[]): string {
+  let content = '---\n';
+  content += `type: ${CHAT_NOTE_TYPE}\n`;
+  content += `book: "[[${meta.bookNoteName}]]"\n`;
+  content += `book_id: ${meta.bookId}\n`;
+  content += `created: ${meta.created}\n`;
+  if (meta.profile) content += `profile: ${JSON.stringify(meta.profile)}\n`;
+  content += 'tags: ["BookRise", "BookRiseChat"]\n';
+  content += '---\n\n';
+  content += `# Chat about ${meta.bookTitle}\n\n`;
+  content += messages
+    .map(message => `${ROLE_HEADERS[message.role]}\n${quote(message.content)}\n`)
+    .join('\n');
+  return content;
+}
+
+export function parseConversation(content: string): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  let current: { role: ChatMessage['role']; lines: string[] } | null = null;
+
+  const flush = () => {
+    if (current) {
+      messages.push({ role: current.role, content: current.lines.join('\n').trim() });
+      current = null;
+    }
+  };
+
+  for (const line of content.split('\n')) {
+    if (line === ROLE_HEADERS.user || line === ROLE_HEADERS.assistant) {
+      flush();
+      current = { role: line === ROLE_HEADERS.user ? 'user' : 'assistant', lines: [] };
+    } else if (current && line.startsWith('>')) {
+      current.lines.push(line.replace(/^> ?/, ''));
+    } else {
+      flush(); // A non-quoted line ends the callout
+    }
+  }
+  flush();
+  return messages;
+}
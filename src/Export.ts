@@ -0,0 +1,179 @@
+import type { Book, Highlight } from './BookriseClient';
+
+// Exporting the library's books and highlights in formats for other tools:
+// CSV and JSON for analysis, a tab-separated Anki import file for flashcards,
+// and BibTeX or CSL-JSON entries for citing the books.
+
+export type ExportFormat = 'csv' | 'json' | 'anki' | 'bibtex' | 'csl';
+
+export interface ExportedBook {
+  book: Book;
+  highlights: Highlight[];
+}
+
+export interface ExportFile {
+  content: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMAT_NAMES: Record<ExportFormat, string> = {
+  csv: 'CSV',
+  json: 'JSON',
+  anki: 'Anki (tab-separated)',
+  bibtex: 'BibTeX',
+  csl: 'CSL-JSON',
+};
+
+// Only the highlight-based formats need every book's highlights fetched
+export function exportNeedsHighlights(format: ExportFormat): boolean {
+  return format === 'csv' || format === 'json' || format === 'anki';
+}
+
+export function renderExport(format: ExportFormat, books: ExportedBook[], exportedAt: string): ExportFile {
+  switch (format) {
+    case 'csv':
+      return { content: toCsv(books), extension: 'csv', mimeType: 'text/csv' };
+    case 'json':
+      return { content: toJson(books, exportedAt), extension: 'json', mimeType: 'application/json' };
+    case 'anki':
+      return { content: toAnkiTsv(books), extension: 'txt', mimeType: 'text/tab-separated-values' };
+    case 'bibtex':
+      return { content: toBibtex(books), extension: 'bib', mimeType: 'application/x-bibtex' };
+    case 'csl':
+      return { content: toCslJson(books), extension: 'json', mimeType: 'application/json' };
+  }
+}
+
+// --- CSV: one row per highlight ---
+
+const CSV_COLUMNS = [
+  'book_id', 'title', 'author', 'isbn', 'highlight_id', 'text', 'note',
+  'page', 'location', 'color', 'created_at', 'updated_at',
+];
+
+function csvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(books: ExportedBook[]): string {
+  const rows = [CSV_COLUMNS.join(',')];
+  for (const { book, highlights } of books) {
+    for (const hl of highlights) {
+      rows.push([
+        book.id, book.title, book.author, book.isbn, hl.id, hl.text_content, hl.note,
+        hl.page, hl.location, hl.color, hl.created_at, hl.updated_at,
+      ].map(csvField).join(','));
+    }
+  }
+  return rows.join('\r\n') + '\r\n';
+}
+
+// --- JSON: the API's data, highlights nested in their books ---
+
+function toJson(books: ExportedBook[], exportedAt: string): string {
+  return JSON.stringify({
+    exported_at: exportedAt,
+    books: books.map(({ book, highlights }) => ({ ...book, highlights })),
+  }, null, 2);
+}
+
+// --- Anki: highlight on the front, book and note on the back ---
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Tabs and newlines would break the row, so fields are HTML
+function ankiField(text: string): string {
+  return escapeHtml(text).replace(/\t/g, ' ').replace(/\r?\n/g, '<br>');
+}
+
+function ankiTag(text: string): string {
+  return text.replace(/[^\p{L}\p{N}_-]+/gu, '_').replace(/^_+|_+$/g, '');
+}
+
+function toAnkiTsv(books: ExportedBook[]): string {
+  const lines = ['#separator:tab', '#html:true', '#tags column:3'];
+  for (const { book, highlights } of books) {
+    const source = book.author ? `${book.title} — ${book.author}` : book.title;
+    const tags = ['BookRise', ankiTag(book.title)].filter(tag => tag !== '').join(' ');
+    for (const hl of highlights) {
+      if (!hl.text_content) continue; // A note on its own makes no card
+      const front = ankiField(hl.text_content);
+      let back = `<i>${ankiField(source)}</i>`;
+      if (hl.page) back += ` (p. ${hl.page})`;
+      if (hl.note) back += `<br><br>${ankiField(hl.note)}`;
+      lines.push(`${front}\t${back}\t${tags}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// --- Citations: one entry per book ---
+
+// "Jane Austen" -> { family: "Austen", given: "Jane" }; "Austen, Jane" is understood too
+function splitAuthorName(author: string): { family: string; given?: string } {
+  const name = author.trim();
+  if (name.includes(',')) {
+    const [family, given] = name.split(',', 2).map(part => part.trim());
+    return given ? { family, given } : { family };
+  }
+  const parts = name.split(/\s+/);
+  if (parts.length === 1) return { family: name };
+  return { family: parts[parts.length - 1], given: parts.slice(0, -1).join(' ') };
+}
+
+// Multiple authors are separated by " and ", "&" or ";"
+function splitAuthors(author: string | undefined): string[] {
+  return (author ?? '').split(/\s+and\s+|\s*&\s*|\s*;\s*/).map(name => name.trim()).filter(name => name !== '');
+}
+
+// Citation keys like "austen-pride" must be unique within the file
+function citationKeys(books: ExportedBook[]): string[] {
+  const used = new Map<string, number>();
+  return books.map(({ book }) => {
+    const firstAuthor = splitAuthors(book.author)[0];
+    const family = firstAuthor ? splitAuthorName(firstAuthor).family : '';
+    const titleWord = book.title.split(/\s+/).find(word => word.length > 3) ?? book.title;
+    const base = [family, titleWord]
+      .map(part => part.normalize('NFD').replace(/[^A-Za-z0-9]/g, '').toLowerCase())
+      .filter(part => part !== '')
+      .join('-') || book.id;
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    return count === 0 ? base : `${base}-${count + 1}`;
+  });
+}
+
+function bibtexValue(text: string): string {
+  return text.replace(/[{}]/g, '').replace(/([&%$#_])/g, '\\$1');
+}
+
+function toBibtex(books: ExportedBook[]): string {
+  const keys = citationKeys(books);
+  return books.map(({ book }, index) => {
+    const fields = [`  title = {${bibtexValue(book.title)}}`];
+    const authors = splitAuthors(book.author);
+    if (authors.length > 0) fields.push(`  author = {${authors.map(bibtexValue).join(' and ')}}`);
+    if (book.isbn) fields.push(`  isbn = {${bibtexValue(book.isbn)}}`);
+    return `@book{${keys[index]},\n${fields.join(',\n')}\n}\n`;
+  }).join('\n');
+}
+
+function toCslJson(books: ExportedBook[]): string {
+  const keys = citationKeys(books);
+  const items = books.map(({ book }, index) => {
+    const item: Record<string, unknown> = { id: keys[index], type: 'book', title: book.title };
+    const authors = splitAuthors(book.author);
+    if (authors.length > 0) item.author = authors.map(splitAuthorName);
+    if (book.isbn) item.ISBN = book.isbn;
+    return item;
+  });
+  return JSON.stringify(items, null, 2);
+}
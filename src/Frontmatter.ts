@@ -0,0 +1,98 @@
+import { parseYaml, stringifyYaml } from 'obsidian';
+
+// Frontmatter of synced notes is built as properties and written as YAML, so titles and
+// authors with quotes, `#` or line breaks stay valid, and it is merged property by property
+// with the frontmatter a note already has.
+
+export type FrontmatterProperties = Record<string, unknown>;
+
+// Descriptive properties that can be renamed, e.g. to fit Dataview queries. The others
+// (`id`, `highlight_id`, `color`, `tags`, ...) are read back by the plugin and keep their names.
+export const RENAMEABLE_PROPERTIES = [
+  'title', 'author', 'isbn', 'percent_read', 'book', 'page', 'location', 'highlight_created_at',
+] as const;
+
+export type RenameableProperty = typeof RENAMEABLE_PROPERTIES[number];
+
+export type PropertyNames = Partial<Record<RenameableProperty, string>>;
+
+// Property name that leaves the property out
+export const OMITTED_PROPERTY = '-';
+
+function isRenameable(key: string): key is RenameableProperty {
+  return (RENAMEABLE_PROPERTIES as readonly string[]).includes(key);
+}
+
+// Why `property` can't be renamed to `name`, or null when it can. Names in `reservedNames`
+// (the plugin's other properties) and names given to another property are taken.
+export function checkPropertyName(
+  property: RenameableProperty,
+  name: string,
+  names: PropertyNames,
+  reservedNames: readonly string[]
+): string | null {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed === property || trimmed === OMITTED_PROPERTY) return null;
+  if (reservedNames.includes(trimmed)) return `"${trimmed}" is used by the plugin itself.`;
+  const other = RENAMEABLE_PROPERTIES.find(key => key !== property && names[key]?.trim() === trimmed);
+  return other ? `"${trimmed}" is already the name of ${other}.` : null;
+}
+
+// Rename properties as configured and drop empty ones. A name that is taken (see
+// `checkPropertyName`) is ignored, so the plugin's own properties are never overwritten.
+export function applyPropertyNames(
+  properties: FrontmatterProperties,
+  names: PropertyNames,
+  reservedNames: readonly string[]
+): FrontmatterProperties {
+  const result: FrontmatterProperties = {};
+  for (const [key, value] of Object.entries(properties)) {
+    if (value === undefined || value === null) continue;
+    let name = (isRenameable(key) && names[key]?.trim()) || key;
+    if (name === OMITTED_PROPERTY) continue;
+    if (isRenameable(key) && checkPropertyName(key, name, names, reservedNames)) name = key;
+    result[name] = value;
+  }
+  return result;
+}
+
+// The frontmatter block, fences included
+export function formatFrontmatter(properties: FrontmatterProperties): string {
+  return `---\n${stringifyYaml(properties).replace(/\n*$/, '\n')}---\n`;
+}
+
+// Properties of a frontmatter block's YAML, or null when it isn't a valid YAML mapping
+export function parseFrontmatterProperties(yaml: string): FrontmatterProperties | null {
+  try {
+    const parsed: unknown = parseYaml(yaml);
+    if (parsed === null || parsed === undefined) return {};
+    return typeof parsed === 'object' && !Array.isArray(parsed) ? parsed as FrontmatterProperties : null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// The generated properties, followed by the note's other properties. Properties in
+// `ownedKeys` are managed by the plugin: they are replaced, or removed when no longer
+// generated. Lists in both, like tags, keep the note's extra items unless `isOwnedItem`
+// says the plugin added them.
+export function mergeFrontmatterProperties(
+  existing: FrontmatterProperties,
+  generated: FrontmatterProperties,
+  ownedKeys: string[],
+  isOwnedItem: (item: unknown) => boolean = () => false
+): FrontmatterProperties {
+  const merged: FrontmatterProperties = { ...generated };
+  for (const [key, value] of Object.entries(existing)) {
+    if (key in generated) {
+      const generatedValue = generated[key];
+      if (Array.isArray(generatedValue) && Array.isArray(value)) {
+        const extraItems = value.filter(item => !generatedValue.includes(item) && !isOwnedItem(item));
+        merged[key] = [...generatedValue, ...extraItems];
+      }
+    } else if (!ownedKeys.includes(key)) {
+      merged[key] = value;
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,86 @@
+import { parseFrontmatterProperties } from './Frontmatter';
+import { splitFrontmatter } from './NoteMerge';
+
+// Reading local edits of a highlight's note and color back out of synced notes
+// (built-in layout only), so they can be pushed to BookRise.
+
+export interface HighlightFields {
+  note: string;
+  color: string;
+}
+
+// Colors are compared the way they appear in `#hlcolor/...` tags
+export function normalizeColor(color: string | undefined | null): string {
+  return (color ?? '').trim().toLowerCase().replace(/\s+/g, '_');
+}
+
+// A normalized color back in BookRise's spelling, e.g. "Light Blue" for `light_blue`, when
+// one of `knownColors` (as BookRise sent them) matches; otherwise as it is
+export function toBookriseColor(color: string, knownColors: Iterable<string | undefined>): string {
+  for (const known of knownColors) {
+    if (known && normalizeColor(known) === color) return known;
+  }
+  return color;
+}
+
+export function normalizeHighlightFields(note: string | undefined | null, color: string | undefined | null): HighlightFields {
+  return { note: (note ?? '').trim(), color: normalizeColor(color) };
+}
+
+// Short, stable hash of a highlight's editable fields (djb2)
+export function hashHighlightFields(fields: HighlightFields): string {
+  const input = JSON.stringify([fields.note, fields.color]);
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// Note and color of an individual highlight note. The note is everything between the
+// `**Note:**` line and the "My Notes" section; the color comes from the frontmatter.
+export function parseHighlightNote(content: string, myNotesHeading: string): HighlightFields {
+  const { frontmatter, body } = splitFrontmatter(content);
+  const color = frontmatter !== null ? parseFrontmatterProperties(frontmatter)?.color : undefined;
+
+  let note = '';
+  const noteMatch = body.match(/(^|\n)\*\*Note:\*\*\n/);
+  if (noteMatch && noteMatch.index !== undefined) {
+    const start = noteMatch.index + noteMatch[0].length;
+    const end = body.indexOf(myNotesHeading, start);
+    note = body.substring(start, end === -1 ? undefined : end);
+  }
+  return normalizeHighlightFields(note, color === undefined || color === null ? undefined : String(color));
+}
+
+// Notes and colors of the highlights in a single-file book note, keyed by block ID.
+// Only highlights with text are included: for note-only highlights the note is the
+// list item itself and can't be told apart from the metadata around it.
+export function parseBookHighlightList(content: string): Map<string, HighlightFields> {
+  const result = new Map<string, HighlightFields>();
+  const lines = content.split('\n');
+
+  for (let i = 0; i < lines.length; i++) {
+    const blockMatch = lines[i].match(/\s\^([A-Za-z0-9-]+)\s*$/);
+    if (!blockMatch) continue;
+
+    // Walk back to the start of the list item to see what kind of highlight it is
+    let start = i;
+    while (start > 0 && !lines[start].startsWith('- ')) start--;
+    if (lines[start].startsWith('- **Note:**')) continue;
+
+    const colorMatch = lines[i].match(/#hlcolor\/(\S+)/);
+    const noteLines: string[] = [];
+    const noteMatch = lines[i + 1]?.match(/^ {2}- \*\*Note:\*\* ?(.*)$/);
+    if (noteMatch) {
+      noteLines.push(noteMatch[1]);
+      let j = i + 2;
+      while (j < lines.length && lines[j].startsWith('    ')) {
+        noteLines.push(lines[j].substring(4));
+        j++;
+      }
+    }
+    result.set(blockMatch[1], normalizeHighlightFields(noteLines.join('\n'), colorMatch?.[1]));
+  }
+  return result;
+}
@@ -0,0 +1,253 @@
+import type { Book, Highlight } from './BookriseClient';
+
+// Highlights read outside of BookRise: Kindle's "My Clippings.txt" and Readwise's CSV export.
+// They become regular Book/Highlight objects, so they are rendered like synced ones. Their IDs
+// end in the source's suffix ("-kindle", "-readwise"), which BookRise IDs never do, and start
+// with a hash, so the 8-character block IDs derived from them stay unique.
+
+export type ImportFormat = 'kindle' | 'readwise';
+
+export interface ImportedBook {
+  book: Book;
+  highlights: Highlight[];
+}
+
+// Shown as `source` in the imported notes' frontmatter
+export const IMPORT_SOURCE_NAMES: Record<ImportFormat, string> = {
+  kindle: 'Kindle',
+  readwise: 'Readwise',
+};
+
+export function isImportedId(id: string): boolean {
+  return /-(kindle|readwise)$/.test(id);
+}
+
+// Stable 16-character hex ID for the given parts (FNV-1a and djb2, 32 bits each)
+function hashId(parts: (string | number | undefined)[]): string {
+  const input = parts.map(part => String(part ?? '')).join('\u0000');
+  let fnv = 0x811c9dc5;
+  let djb = 5381;
+  for (let i = 0; i < input.length; i++) {
+    const code = input.charCodeAt(i);
+    fnv = Math.imul(fnv ^ code, 0x01000193);
+    djb = ((djb << 5) + djb + code) | 0;
+  }
+  return (fnv >>> 0).toString(16).padStart(8, '0') + (djb >>> 0).toString(16).padStart(8, '0');
+}
+
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const time = Date.parse(value);
+  return isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+// Collects highlights per book, in the order the books are first seen
+class ImportedLibrary {
+  private books = new Map<string, ImportedBook>();
+
+  constructor(private format: ImportFormat) {}
+
+  bookFor(title: string, author: string | undefined, isbn?: string): ImportedBook {
+    const id = `${hashId([title, author])}-${this.format}`;
+    let entry = this.books.get(id);
+    if (!entry) {
+      entry = {
+        book: { id, title, author, isbn, source: IMPORT_SOURCE_NAMES[this.format] },
+        highlights: [],
+      };
+      this.books.set(id, entry);
+    }
+    return entry;
+  }
+
+  highlightId(book: Book, ...parts: (string | number | undefined)[]): string {
+    return `${hashId([book.id, ...parts])}-${this.format}`;
+  }
+
+  result(): ImportedBook[] {
+    return Array.from(this.books.values()).filter(entry => entry.highlights.length > 0);
+  }
+}
+
+// --- Kindle "My Clippings.txt" ---
+// Each clipping is separated by "==========":
+//   Book Title (Author Name)
+//   - Your Highlight on page 12 | Location 123-125 | Added on Monday, March 4, 2019 10:00:00 PM
+//   <blank line>
+//   The highlighted text
+
+interface KindleClipping {
+  title: string;
+  author?: string;
+  kind: 'highlight' | 'note' | 'bookmark';
+  page?: number;
+  location?: string;
+  addedAt?: string;
+  text: string;
+}
+
+function parseKindleClipping(block: string): KindleClipping | null {
+  const lines = block.replace(/^\uFEFF/, '').trim().split(/\r?\n/);
+  if (lines.length < 2) return null;
+
+  const titleLine = lines[0].trim();
+  const authorMatch = titleLine.match(/^(.*)\(([^()]*)\)\s*$/);
+  const title = (authorMatch ? authorMatch[1] : titleLine).trim();
+  const author = authorMatch?.[2].trim() || undefined;
+
+  const meta = lines[1];
+  const kind = /\bnote\b/i.test(meta) ? 'note' : /\bbookmark\b/i.test(meta) ? 'bookmark' : 'highlight';
+  const pageMatch = meta.match(/\bpage\s+(\d+)/i);
+  const locationMatch = meta.match(/\blocation\s+([\d-]+)/i);
+  const addedMatch = meta.match(/Added on\s+(.*)$/i);
+
+  return {
+    title,
+    author,
+    kind,
+    page: pageMatch ? parseInt(pageMatch[1], 10) : undefined,
+    location: locationMatch?.[1],
+    addedAt: toIsoDate(addedMatch?.[1]),
+    text: lines.slice(2).join('\n').trim(),
+  };
+}
+
+// Kindle puts a note at the last location of the highlight it belongs to
+function locationEnd(location: string | undefined): string | undefined {
+  return location?.split('-').pop();
+}
+
+export function parseKindleClippings(content: string): ImportedBook[] {
+  const library = new ImportedLibrary('kindle');
+  const notes: KindleClipping[] = [];
+
+  for (const block of content.split(/^==========\s*$/m)) {
+    const clipping = parseKindleClipping(block);
+    if (!clipping || !clipping.title || !clipping.text || clipping.kind === 'bookmark') continue;
+    if (clipping.kind === 'note') {
+      notes.push(clipping);
+      continue;
+    }
+
+    const entry = library.bookFor(clipping.title, clipping.author);
+    // Kindle can list the same highlight more than once, e.g. after re-highlighting it
+    if (entry.highlights.some(hl => hl.text_content === clipping.text)) continue;
+    entry.highlights.push({
+      id: library.highlightId(entry.book, clipping.text),
+      book_id: entry.book.id,
+      text_content: clipping.text,
+      page: clipping.page,
+      location: clipping.location,
+      created_at: clipping.addedAt,
+      updated_at: clipping.addedAt,
+    });
+  }
+
+  for (const note of notes) {
+    const entry = library.bookFor(note.title, note.author);
+    const highlight = entry.highlights.find(hl => locationEnd(hl.location) === locationEnd(note.location));
+    if (highlight) {
+      highlight.note = highlight.note ? `${highlight.note}\n\n${note.text}` : note.text;
+    } else {
+      entry.highlights.push({
+        id: library.highlightId(entry.book, 'note', note.location, note.text),
+        book_id: entry.book.id,
+        note: note.text,
+        page: note.page,
+        location: note.location,
+        created_at: note.addedAt,
+        updated_at: note.addedAt,
+      });
+    }
+  }
+  return library.result();
+}
+
+// --- Readwise CSV export ---
+// Columns include: Highlight, Book Title, Book Author, Note, Color, Location Type, Location, Highlighted at
+
+// RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+export function parseReadwiseCsv(content: string): ImportedBook[] {
+  const [header, ...rows] = parseCsv(content);
+  if (!header) return [];
+  const column = (name: string) => header.findIndex(cell => cell.trim().toLowerCase() === name);
+  const textColumn = column('highlight');
+  const titleColumn = column('book title');
+  if (textColumn === -1 || titleColumn === -1) {
+    throw new Error('This is not a Readwise CSV export: the "Highlight" and "Book Title" columns are missing.');
+  }
+  const authorColumn = column('book author');
+  const noteColumn = column('note');
+  const colorColumn = column('color');
+  const locationTypeColumn = column('location type');
+  const locationColumn = column('location');
+  const dateColumn = column('highlighted at');
+  const cell = (cells: string[], index: number) => (index === -1 ? '' : (cells[index] ?? '').trim());
+
+  const library = new ImportedLibrary('readwise');
+  for (const cells of rows) {
+    const text = cell(cells, textColumn);
+    const title = cell(cells, titleColumn);
+    if (!text || !title) continue;
+
+    const entry = library.bookFor(title, cell(cells, authorColumn) || undefined);
+    const locationType = cell(cells, locationTypeColumn).toLowerCase();
+    const location = cell(cells, locationColumn);
+    const page = locationType === 'page' ? parseInt(location, 10) : NaN;
+    const id = library.highlightId(entry.book, text, location);
+    if (entry.highlights.some(hl => hl.id === id)) continue; // Exported twice
+    const highlightedAt = toIsoDate(cell(cells, dateColumn));
+    entry.highlights.push({
+      id,
+      book_id: entry.book.id,
+      text_content: text,
+      note: cell(cells, noteColumn) || undefined,
+      color: cell(cells, colorColumn) || undefined,
+      page: isNaN(page) ? undefined : page,
+      location: isNaN(page) && location ? location : undefined,
+      created_at: highlightedAt,
+      updated_at: highlightedAt,
+    });
+  }
+  return library.result();
+}
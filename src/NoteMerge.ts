@@ -0,0 +1,112 @@
+import { formatFrontmatter, mergeFrontmatterProperties, parseFrontmatterProperties } from './Frontmatter';
+
+// Helpers to carry user-written content over when a synced note is regenerated.
+//
+// Two things survive a resync:
+// - Protected regions: anything between `%% bookrise:start <name> %%` and
+//   `%% bookrise:end <name> %%` markers. Generated notes contain an empty
+//   "my-notes" region; users can add their own named regions anywhere.
+// - Frontmatter properties the plugin does not generate itself, and the items users
+//   added to generated lists like tags.
+
+const REGION_REGEX = /%% bookrise:start ([\w-]+) %%\n([\s\S]*?)%% bookrise:end \1 %%/g;
+const FRONTMATTER_REGEX = /^---\n([\s\S]*?)\n---\n?/;
+
+export const MY_NOTES_REGION = 'my-notes';
+
+// Markup for an (initially empty) protected region
+export function protectedRegion(name: string, content = '\n'): string {
+  return `%% bookrise:start ${name} %%\n${content}%% bookrise:end ${name} %%\n`;
+}
+
+export function extractProtectedRegions(content: string): Map<string, string> {
+  const regions = new Map<string, string>();
+  for (const match of content.matchAll(REGION_REGEX)) {
+    regions.set(match[1], match[2]);
+  }
+  return regions;
+}
+
+export function splitFrontmatter(content: string): { frontmatter: string | null; body: string } {
+  const match = content.match(FRONTMATTER_REGEX);
+  if (!match) {
+    return { frontmatter: null, body: content };
+  }
+  return { frontmatter: match[1], body: content.slice(match[0].length) };
+}
+
+// Split frontmatter text into top-level property blocks, keyed by property name.
+// Indented lines and list items belong to the property above them.
+export function frontmatterBlocks(frontmatter: string): Map<string, string> {
+  const blocks = new Map<string, string>();
+  let currentKey: string | null = null;
+  for (const line of frontmatter.split('\n')) {
+    const keyMatch = line.match(/^([^\s#:-][^:]*):(\s|$)/);
+    if (keyMatch) {
+      currentKey = keyMatch[1].trim();
+      blocks.set(currentKey, line);
+    } else if (currentKey !== null) {
+      blocks.set(currentKey, `${blocks.get(currentKey)}\n${line}`);
+    }
+  }
+  return blocks;
+}
+
+// Merge a freshly generated note with the version currently in the vault.
+// `ownedKeys` are the frontmatter properties the plugin manages; any other
+// property found in the existing note is kept. `isOwnedItem` tells list items
+// the plugin generated apart from ones the user added.
+export function mergeWithExistingNote(
+  existing: string,
+  generated: string,
+  ownedKeys: string[],
+  isOwnedItem?: (item: unknown) => boolean
+): string {
+  const existingParts = splitFrontmatter(existing);
+  const generatedParts = splitFrontmatter(generated);
+
+  let merged = generated;
+
+  const existingProperties = existingParts.frontmatter !== null ? parseFrontmatterProperties(existingParts.frontmatter) : null;
+  const generatedProperties = generatedParts.frontmatter !== null ? parseFrontmatterProperties(generatedParts.frontmatter) : null;
+  if (existingProperties && generatedProperties) {
+    const properties = mergeFrontmatterProperties(existingProperties, generatedProperties, ownedKeys, isOwnedItem);
+    merged = `${formatFrontmatter(properties)}${generatedParts.body}`;
+  } else if (existingParts.frontmatter !== null && generatedParts.frontmatter !== null) {
+    // The existing frontmatter isn't valid YAML: keep its other properties as they are written
+    const generatedKeys = frontmatterBlocks(generatedParts.frontmatter);
+    const userBlocks: string[] = [];
+    frontmatterBlocks(existingParts.frontmatter).forEach((block, key) => {
+      if (!ownedKeys.includes(key) && !generatedKeys.has(key)) {
+        userBlocks.push(block);
+      }
+    });
+    if (userBlocks.length > 0) {
+      const frontmatter = `${generatedParts.frontmatter}\n${userBlocks.join('\n')}`;
+      merged = `---\n${frontmatter}\n---\n${generatedParts.body}`;
+    }
+  }
+
+  const existingRegions = extractProtectedRegions(existingParts.body);
+  if (existingRegions.size === 0) {
+    return merged;
+  }
+
+  const placedRegions = new Set<string>();
+  merged = merged.replace(REGION_REGEX, (whole, name: string) => {
+    if (!existingRegions.has(name)) {
+      return whole;
+    }
+    placedRegions.add(name);
+    return protectedRegion(name, existingRegions.get(name)).replace(/\n$/, '');
+  });
+
+  // Regions the generated note has no slot for are appended, never dropped
+  existingRegions.forEach((content, name) => {
+    if (!placedRegions.has(name)) {
+      merged = `${merged.replace(/\n*$/, '\n\n')}${protectedRegion(name, content)}`;
+    }
+  });
+
+  return merged;
+}
@@ -0,0 +1,83 @@
+import type { DataAdapter } from 'obsidian';
+
+// Spaced repetition for highlight review, a simplified SM-2: every rating moves the
+// card's due date out by an interval that grows with the card's ease.
+
+export type ReviewRating = 'again' | 'good' | 'easy';
+
+export interface ReviewCardState {
+  due: string; // ISO timestamp
+  interval: number; // Days until the card is due again
+  ease: number; // Interval multiplier, adjusted by ratings
+  reviews: number;
+  lastReviewedAt: string; // ISO timestamp
+}
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const AGAIN_DELAY_MS = 10 * 60 * 1000; // "Again" cards come back later in the same session
+
+export function scheduleReview(previous: ReviewCardState | undefined, rating: ReviewRating, now: Date): ReviewCardState {
+  const ease = previous?.ease ?? DEFAULT_EASE;
+  const interval = previous?.interval ?? 0;
+
+  let nextEase = ease;
+  let nextInterval: number;
+  switch (rating) {
+    case 'again':
+      nextEase = Math.max(MIN_EASE, ease - 0.2);
+      nextInterval = 0;
+      break;
+    case 'good':
+      nextInterval = interval === 0 ? 1 : interval === 1 ? 3 : Math.round(interval * ease);
+      break;
+    case 'easy':
+      nextEase = ease + 0.15;
+      nextInterval = interval === 0 ? 4 : Math.round(interval * ease * 1.3);
+      break;
+  }
+
+  const dueMs = nextInterval === 0 ? now.getTime() + AGAIN_DELAY_MS : now.getTime() + nextInterval * DAY_MS;
+  return {
+    due: new Date(dueMs).toISOString(),
+    interval: nextInterval,
+    ease: nextEase,
+    reviews: (previous?.reviews ?? 0) + 1,
+    lastReviewedAt: now.toISOString(),
+  };
+}
+
+export function isDue(state: ReviewCardState, now: Date): boolean {
+  return Date.parse(state.due) <= now.getTime();
+}
+
+// Persists review scheduling as JSON next to the plugin's data.json, keyed by the
+// highlight's block ID so it survives switching between the two note layouts.
+export class ReviewStateStore {
+  cards: Record<string, ReviewCardState> = {};
+
+  constructor(private adapter: DataAdapter, private filePath: string) {}
+
+  async load(): Promise<void> {
+    try {
+      if (await this.adapter.exists(this.filePath)) {
+        this.cards = JSON.parse(await this.adapter.read(this.filePath)).cards ?? {};
+      }
+    } catch (error) {
+      console.error(`Could not read BookRise review state from ${this.filePath}, starting fresh:`, error);
+      this.cards = {};
+    }
+  }
+
+  async save(): Promise<void> {
+    await this.adapter.write(this.filePath, JSON.stringify({ cards: this.cards }, null, 2));
+  }
+
+  async rate(key: string, rating: ReviewRating, now: Date = new Date()): Promise<ReviewCardState> {
+    const state = scheduleReview(this.cards[key], rating, now);
+    this.cards[key] = state;
+    await this.save();
+    return state;
+  }
+}
@@ -0,0 +1,102 @@
+// Incremental parser for Server-Sent Events (text/event-stream).
+// Text can be fed in arbitrary chunks; complete events are returned as soon
+// as their terminating blank line arrives.
+
+export interface SseEvent {
+  event: string; // Defaults to "message" when the stream sets no `event:` field
+  data: string; // Multiple `data:` lines are joined with "\n"
+  id?: string;
+}
+
+export class SseParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+
+  feed(chunk: string): SseEvent[] {
+    this.buffer += chunk;
+    const events: SseEvent[] = [];
+
+    let newlineIndex: number;
+    while ((newlineIndex = this.buffer.search(/\r\n|\r|\n/)) !== -1) {
+      // A lone "\r" at the end of the buffer may be the first half of "\r\n"
+      if (this.buffer[newlineIndex] === '\r' && newlineIndex === this.buffer.length - 1) {
+        break;
+      }
+      const line = this.buffer.slice(0, newlineIndex);
+      const newlineLength = this.buffer.startsWith('\r\n', newlineIndex) ? 2 : 1;
+      this.buffer = this.buffer.slice(newlineIndex + newlineLength);
+
+      const event = this.processLine(line);
+      if (event) {
+        events.push(event);
+      }
+    }
+    return events;
+  }
+
+  // Flush a final event the stream ended without a trailing blank line for
+  end(): SseEvent[] {
+    const events: SseEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer);
+      this.buffer = '';
+      if (event) {
+        events.push(event);
+      }
+    }
+    const event = this.dispatch();
+    if (event) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  private processLine(line: string): SseEvent | null {
+    if (line === '') {
+      return this.dispatch();
+    }
+    if (line.startsWith(':')) {
+      return null; // Comment / keep-alive
+    }
+
+    const colonIndex = line.indexOf(':');
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.lastEventId = value;
+        break;
+      default:
+        // `retry` and unknown fields are ignored
+        break;
+    }
+    return null;
+  }
+
+  private dispatch(): SseEvent | null {
+    if (this.dataLines.length === 0) {
+      this.eventType = '';
+      return null;
+    }
+    const event: SseEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId,
+    };
+    this.eventType = '';
+    this.dataLines = [];
+    return event;
+  }
+}
@@ -0,0 +1,40 @@
+import type { Book, Highlight } from './BookriseClient';
+import { normalizeColor } from './HighlightEdits';
+
+// Which books and highlights a sync includes. Empty lists don't filter anything.
+export interface SyncFilters {
+  excludedBookIds: string[]; // Books unchecked in the settings' book list
+  includeBookTags: string[]; // Only books with at least one of these BookRise tags
+  excludeBookTags: string[]; // No books with any of these BookRise tags
+  minPercentRead: number;
+  maxPercentRead: number;
+  excludedHighlightColors: string[];
+}
+
+// Comma-separated setting text as a list, e.g. "fiction, to-review"
+export function parseListSetting(value: string): string[] {
+  return value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item !== '');
+}
+
+function hasAnyTag(book: Book, tags: string[]): boolean {
+  const bookTags = (book.tags ?? []).map(tag => tag.toLowerCase());
+  return tags.some(tag => bookTags.includes(tag.toLowerCase()));
+}
+
+export function isBookIncluded(book: Book, filters: SyncFilters): boolean {
+  if (filters.excludedBookIds.includes(book.id)) return false;
+  if (filters.includeBookTags.length > 0 && !hasAnyTag(book, filters.includeBookTags)) return false;
+  if (hasAnyTag(book, filters.excludeBookTags)) return false;
+
+  const percentRead = book.percent_read ?? 0;
+  return percentRead >= filters.minPercentRead && percentRead <= filters.maxPercentRead;
+}
+
+export function isHighlightIncluded(hl: Highlight, filters: SyncFilters): boolean {
+  if (!hl.color) return true;
+  const color = normalizeColor(hl.color);
+  return !filters.excludedHighlightColors.some(excluded => normalizeColor(excluded) === color);
+}
@@ -0,0 +1,57 @@
+import type { TAbstractFile, Vault } from 'obsidian';
+
+// A change a sync makes to the vault. A dry run records these instead of writing them.
+export type PlannedChange =
+  | { type: 'create'; path: string; content: string }
+  | { type: 'modify'; path: string; before: string; content: string }
+  | { type: 'rename'; path: string; newPath: string }
+  | { type: 'remove'; path: string }; // Deleted in BookRise, handled by the deletion policy
+
+// Records planned changes, and answers path lookups as if the recorded renames had happened
+export class SyncPreview {
+  changes: PlannedChange[] = [];
+
+  constructor(private vault: Vault) {}
+
+  record(change: PlannedChange): void {
+    this.changes.push(change);
+  }
+
+  // The file or folder that would be at `path` after the recorded changes
+  getAbstractFileByPath(path: string): TAbstractFile | null {
+    const created = this.changes.some(change => change.type === 'create' && change.path === path);
+    if (created) return null; // Not in the vault yet; only the preview knows about it
+
+    const originalPath = this.originalPath(path);
+    if (originalPath === path && this.isMovedAway(path)) return null;
+    return this.vault.getAbstractFileByPath(originalPath);
+  }
+
+  // Where an item at `path` before the recorded renames would end up
+  currentPath(path: string): string {
+    for (const change of this.changes) {
+      if (change.type === 'rename') path = replacePrefix(path, change.path, change.newPath);
+    }
+    return path;
+  }
+
+  // Where an item now at `path` (after the recorded renames) was originally
+  private originalPath(path: string): string {
+    for (let i = this.changes.length - 1; i >= 0; i--) {
+      const change = this.changes[i];
+      if (change.type === 'rename') path = replacePrefix(path, change.newPath, change.path);
+    }
+    return path;
+  }
+
+  private isMovedAway(path: string): boolean {
+    return this.changes.some(change => change.type === 'rename' && replacePrefix(path, change.path, '') !== path);
+  }
+}
+
+// `path` with a leading `from` (the item itself or anything inside it) replaced by `to`
+function replacePrefix(path: string, from: string, to: string): string {
+  if (path === from) return to;
+  if (path.startsWith(`${from}/`)) return `${to}${path.substring(from.length)}`;
+  return path;
+}
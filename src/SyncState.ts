@@ -0,0 +1,138 @@
+import type { DataAdapter } from 'obsidian';
+import type { Book, Highlight } from './BookriseClient';
+import { hashHighlightFields, normalizeHighlightFields } from './HighlightEdits';
+
+// What we remember about a synced book between runs
+export interface SyncedBookState {
+  path: string; // Vault path of the main book note
+  fingerprint: string; // Serialized book metadata, used to detect changes
+}
+
+// What we remember about a synced highlight between runs
+export interface SyncedHighlightState {
+  bookId: string;
+  path: string; // Vault path of the note containing the highlight
+  hash?: string; // Hash of the note and color as last written, to detect local edits
+  updatedAt?: string; // BookRise's `updated_at` as last synced, to detect remote edits
+  color?: string; // Color as BookRise spells it, to push local color edits back in that spelling
+}
+
+export interface SyncState {
+  lastSyncedAt: string | null; // ISO timestamp of the start of the last successful sync
+  lastReconciledAt?: string; // ISO timestamp of the start of the last successful sync of every book
+  baseUrl?: string; // BookRise instance the books and highlights were synced from
+  propertyNames: string[]; // Custom frontmatter property names of the last successful sync
+  books: Record<string, SyncedBookState>;
+  highlights: Record<string, SyncedHighlightState>;
+}
+
+export function createEmptySyncState(): SyncState {
+  return {
+    lastSyncedAt: null,
+    propertyNames: [],
+    books: {},
+    highlights: {},
+  };
+}
+
+// Fingerprint of the book fields that end up in the generated notes.
+// Keys are sorted so the fingerprint does not depend on API field order.
+export function fingerprintBook(book: Book): string {
+  const record = book as unknown as Record<string, unknown>;
+  const sorted: Record<string, unknown> = {};
+  Object.keys(record).sort().forEach(key => {
+    sorted[key] = record[key];
+  });
+  return JSON.stringify(sorted);
+}
+
+// Persists the sync state as JSON next to the plugin's data.json, so the
+// (potentially large) highlight map does not bloat the settings file.
+export class SyncStateStore {
+  state: SyncState = createEmptySyncState();
+
+  constructor(private adapter: DataAdapter, private filePath: string) {}
+
+  async load(): Promise<SyncState> {
+    try {
+      if (await this.adapter.exists(this.filePath)) {
+        const raw = JSON.parse(await this.adapter.read(this.filePath));
+        this.state = Object.assign(createEmptySyncState(), raw);
+      }
+    } catch (error) {
+      console.error(`Could not read BookRise sync state from ${this.filePath}, starting fresh:`, error);
+      this.state = createEmptySyncState();
+    }
+    return this.state;
+  }
+
+  async save(): Promise<void> {
+    await this.adapter.write(this.filePath, JSON.stringify(this.state, null, 2));
+  }
+
+  // Forces the next sync to be a full one, keeping the known paths
+  async invalidate(): Promise<void> {
+    this.state.lastSyncedAt = null;
+    await this.save();
+  }
+
+  // Starts over when the books and highlights were synced from another BookRise instance,
+  // whose ids mean nothing here. Returns whether the state was reset; the caller saves it.
+  useInstance(baseUrl: string): boolean {
+    const reset = this.state.baseUrl !== undefined && this.state.baseUrl !== baseUrl;
+    if (reset) {
+      this.state = createEmptySyncState();
+    }
+    this.state.baseUrl = baseUrl;
+    return reset;
+  }
+
+  isBookChanged(book: Book): boolean {
+    const known = this.state.books[book.id];
+    return !known || known.fingerprint !== fingerprintBook(book);
+  }
+
+  recordBook(book: Book, path: string): void {
+    this.state.books[book.id] = { path, fingerprint: fingerprintBook(book) };
+  }
+
+  recordHighlight(hl: Highlight, bookId: string, path: string): void {
+    this.state.highlights[hl.id] = {
+      bookId,
+      path,
+      hash: hashHighlightFields(normalizeHighlightFields(hl.note, hl.color)),
+      updatedAt: hl.updated_at,
+      color: hl.color,
+    };
+  }
+
+  highlightsOfBook(bookId: string): Record<string, SyncedHighlightState> {
+    const result: Record<string, SyncedHighlightState> = {};
+    for (const [id, entry] of Object.entries(this.state.highlights)) {
+      if (entry.bookId === bookId) {
+        result[id] = entry;
+      }
+    }
+    return result;
+  }
+
+  forgetBook(bookId: string): void {
+    delete this.state.books[bookId];
+    this.forgetHighlightsOfBook(bookId);
+  }
+
+  // Drop highlight entries for a book, before re-recording the ones that still exist
+  forgetHighlightsOfBook(bookId: string): void {
+    for (const [id, entry] of Object.entries(this.state.highlights)) {
+      if (entry.bookId === bookId) {
+        delete this.state.highlights[id];
+      }
+    }
+  }
+
+  // Put back a book's highlight entries, e.g. when syncing it failed partway
+  restoreHighlightsOfBook(bookId: string, highlights: Record<string, SyncedHighlightState>): void {
+    this.forgetHighlightsOfBook(bookId);
+    Object.assign(this.state.highlights, highlights);
+  }
+}
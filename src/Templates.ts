@@ -0,0 +1,183 @@
+import type { Book, Highlight } from './BookriseClient';
+
+// A small Mustache-like template language for synced notes:
+// - `{{title}}`, `{{book.title}}`: variables (missing values render as empty text)
+// - `{{#if note}}...{{else}}...{{/if}}` and `{{#unless note}}...{{/unless}}`: conditionals
+// - `{{#each highlights}}...{{/each}}`: loops; inside, the item's fields are
+//   available directly, plus `{{this}}` for plain values and `{{index}}` (1-based)
+
+export type TemplateContext = Record<string, unknown>;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; path: string }
+  | { type: 'block'; kind: 'if' | 'unless' | 'each'; path: string; body: TemplateNode[]; elseBody: TemplateNode[] };
+
+const TAG_REGEX = /\{\{\s*(#if|#unless|#each|\/if|\/unless|\/each|else)?\s*([\w.]*)\s*\}\}/g;
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Stack of open blocks; `target` is the node list new nodes go into
+  const stack: { node: Extract<TemplateNode, { type: 'block' }>; target: TemplateNode[] }[] = [];
+  let target = root;
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(TAG_REGEX)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      target.push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    const [, keyword, path] = match;
+    if (!keyword) {
+      target.push({ type: 'var', path });
+    } else if (keyword.startsWith('#')) {
+      const node: Extract<TemplateNode, { type: 'block' }> = {
+        type: 'block',
+        kind: keyword.slice(1) as 'if' | 'unless' | 'each',
+        path,
+        body: [],
+        elseBody: [],
+      };
+      target.push(node);
+      stack.push({ node, target: node.body });
+      target = node.body;
+    } else if (keyword === 'else') {
+      const open = stack[stack.length - 1];
+      if (!open) {
+        throw new Error('Template error: {{else}} outside of a block.');
+      }
+      open.target = open.node.elseBody;
+      target = open.target;
+    } else {
+      const open = stack.pop();
+      const kind = keyword.slice(1);
+      if (!open || open.node.kind !== kind) {
+        throw new Error(`Template error: unexpected {{/${kind}}}.`);
+      }
+      target = stack.length > 0 ? stack[stack.length - 1].target : root;
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Template error: {{#${stack[stack.length - 1].node.kind}}} is never closed.`);
+  }
+  if (lastIndex < template.length) {
+    target.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+  return root;
+}
+
+function lookup(context: TemplateContext, path: string): unknown {
+  if (path === 'this') {
+    return context.this;
+  }
+  return path.split('.').reduce<unknown>((value, key) => {
+    if (value && typeof value === 'object') {
+      return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+  }, context);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return value !== undefined && value !== null && value !== false && value !== '';
+}
+
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.map(stringify).join(', ');
+  }
+  return String(value);
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  let output = '';
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      output += node.value;
+    } else if (node.type === 'var') {
+      output += stringify(lookup(context, node.path));
+    } else if (node.kind === 'each') {
+      const items = lookup(context, node.path);
+      if (Array.isArray(items) && items.length > 0) {
+        items.forEach((item, i) => {
+          const itemContext: TemplateContext = item && typeof item === 'object' && !Array.isArray(item)
+            ? { ...context, ...item, this: item, index: i + 1 }
+            : { ...context, this: item, index: i + 1 };
+          output += renderNodes(node.body, itemContext);
+        });
+      } else {
+        output += renderNodes(node.elseBody, context);
+      }
+    } else {
+      const truthy = isTruthy(lookup(context, node.path));
+      const show = node.kind === 'if' ? truthy : !truthy;
+      output += renderNodes(show ? node.body : node.elseBody, context);
+    }
+  }
+  return output;
+}
+
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return renderNodes(parseTemplate(template), context);
+}
+
+// First words of a highlight's text (or note), as used in default file names
+export function shortHighlightText(hl: Highlight): string {
+  if (hl.text_content) {
+    return hl.text_content.trim().split(' ').slice(0, 5).join(' ');
+  }
+  if (hl.note) {
+    return `Note - ${hl.note.trim().split(' ').slice(0, 4).join(' ')}`;
+  }
+  return 'Highlight';
+}
+
+export function highlightTemplateContext(hl: Highlight, book: Book): TemplateContext {
+  return {
+    id: hl.id,
+    short_id: hl.id.substring(0, 8),
+    block_id: hl.id.substring(0, 8),
+    text: hl.text_content ?? '',
+    short_text: shortHighlightText(hl),
+    note: hl.note ?? '',
+    page: hl.page,
+    location: hl.location ?? '',
+    color: hl.color ?? '',
+    created_at: hl.created_at ?? '',
+    updated_at: hl.updated_at ?? '',
+    title: book.title,
+    author: book.author ?? '',
+    book: bookFields(book),
+  };
+}
+
+function bookFields(book: Book): TemplateContext {
+  return {
+    id: book.id,
+    title: book.title,
+    author: book.author ?? '',
+    isbn: book.isbn ?? '',
+    tags: book.tags ?? [],
+    percent_read: book.percent_read,
+  };
+}
+
+// `highlights` are highlight contexts extended with what the plugin renders
+// for them in the book note (`content`) and, in per-highlight mode, `link`.
+export function bookTemplateContext(book: Book, highlights: TemplateContext[]): TemplateContext {
+  return {
+    ...bookFields(book),
+    book: bookFields(book),
+    highlights,
+    highlight_count: highlights.length,
+  };
+}
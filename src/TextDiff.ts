@@ -0,0 +1,93 @@
+// Line-based text diff for previewing note changes.
+
+export interface DiffLine {
+  type: 'same' | 'add' | 'remove' | 'skip'; // 'skip' stands in for collapsed unchanged lines
+  text: string;
+}
+
+// Above this many cells the LCS table gets too big, and the changed middle
+// part is shown as removed and re-added as a whole instead
+const MAX_LCS_CELLS = 4000000;
+
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Common prefix and suffix don't need the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const result: DiffLine[] = a.slice(0, start).map(text => ({ type: 'same', text }));
+  result.push(...diffMiddle(a.slice(start, endA), b.slice(start, endB)));
+  result.push(...a.slice(endA).map((text): DiffLine => ({ type: 'same', text })));
+  return result;
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const removeAll = a.map((text): DiffLine => ({ type: 'remove', text }));
+  const addAll = b.map((text): DiffLine => ({ type: 'add', text }));
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [...removeAll, ...addAll];
+  }
+
+  // lcs[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      result.push({ type: 'remove', text: a[i++] });
+    } else {
+      result.push({ type: 'add', text: b[j++] });
+    }
+  }
+  while (i < a.length) result.push({ type: 'remove', text: a[i++] });
+  while (j < b.length) result.push({ type: 'add', text: b[j++] });
+  return result;
+}
+
+// Keep `context` unchanged lines around each change and collapse the rest
+export function collapseUnchanged(lines: DiffLine[], context = 3): DiffLine[] {
+  const keep = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, index) => {
+    if (line.type === 'same') return;
+    for (let k = Math.max(0, index - context); k <= Math.min(lines.length - 1, index + context); k++) {
+      keep[k] = true;
+    }
+  });
+
+  const result: DiffLine[] = [];
+  let skipped = 0;
+  lines.forEach((line, index) => {
+    if (keep[index]) {
+      if (skipped > 0) {
+        result.push({ type: 'skip', text: `${skipped} unchanged lines` });
+        skipped = 0;
+      }
+      result.push(line);
+    } else {
+      skipped++;
+    }
+  });
+  if (skipped > 0) {
+    result.push({ type: 'skip', text: `${skipped} unchanged lines` });
+  }
+  return result;
+}